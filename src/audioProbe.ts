@@ -0,0 +1,25 @@
+/**
+ * Read information about existing audio files with ffprobe
+ */
+
+const ffmpeg = require('fluent-ffmpeg');
+
+/**
+ * Get the duration of an audio file in seconds using ffprobe
+ */
+export async function getAudioDuration(filePath: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err: Error | null, metadata: any) => {
+      if (err) {
+        reject(new Error(`Failed to get audio duration: ${err.message}`));
+        return;
+      }
+      const duration = metadata.format.duration;
+      if (typeof duration !== 'number' || isNaN(duration)) {
+        reject(new Error('Failed to get valid audio duration'));
+        return;
+      }
+      resolve(duration);
+    });
+  });
+}
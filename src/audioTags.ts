@@ -0,0 +1,67 @@
+/**
+ * Metadata tags and cover art written by the final ffmpeg encode
+ *
+ * ffmpeg maps the generic keys to the container: ID3v2 frames (TIT2, TPE1, TALB, TRCK,
+ * COMM, APIC) for MP3, iTunes atoms for M4A and Vorbis comments for Opus and FLAC.
+ */
+
+import * as path from 'path';
+
+export interface AudioTags {
+  title?: string;
+  /** Defaults to the names of the speakers in the script */
+  artist?: string;
+  album?: string;
+  /** Episode number, written as the track number */
+  episode?: string;
+  comment?: string;
+}
+
+export const COVER_ART_EXTENSIONS = ['.jpg', '.jpeg', '.png'];
+
+/**
+ * Tags with a value, in a fixed order
+ */
+function getTagEntries(tags: AudioTags): [string, string][] {
+  const entries: [string, string | undefined][] = [
+    ['title', tags.title],
+    ['artist', tags.artist],
+    ['album', tags.album],
+    ['track', tags.episode],
+    ['comment', tags.comment],
+  ];
+  return entries.filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '');
+}
+
+export function hasTags(tags: AudioTags): boolean {
+  return getTagEntries(tags).length > 0;
+}
+
+export function createTagOutputOptions(tags: AudioTags): string[] {
+  return getTagEntries(tags).flatMap(([key, value]) => ['-metadata', `${key}=${value}`]);
+}
+
+/**
+ * Attach the image of the given input as front cover. The image is copied without re-encoding.
+ */
+export function createCoverArtOutputOptions(inputIndex: number): string[] {
+  return [
+    '-map', `${inputIndex}:v`,
+    '-c:v', 'copy',
+    '-disposition:v:0', 'attached_pic',
+    '-metadata:s:v', 'title=Album cover',
+    '-metadata:s:v', 'comment=Cover (front)',
+  ];
+}
+
+export function isCoverArtFile(filePath: string): boolean {
+  return COVER_ART_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Unique speaker names in order of appearance, e.g. "ずんだもん, 四国めたん"
+ */
+export function formatSpeakerList(names: (string | undefined)[]): string | undefined {
+  const unique = [...new Set(names.filter((name): name is string => !!name))];
+  return unique.length > 0 ? unique.join(', ') : undefined;
+}
@@ -0,0 +1,107 @@
+/**
+ * ffmpeg filter graph for mixing BGM under the voice track
+ *
+ * Input 0 is the voice track; inputs 1..n are copies of the BGM file, joined with
+ * crossfades so that loop seams do not click. The BGM fades in at the start, fades
+ * out at the end of the voice track and can be ducked under speech with a sidechain
+ * compressor keyed by the voice.
+ */
+
+export interface BgmMixOptions {
+  /** BGM volume ratio relative to the voice */
+  volume: number;
+  /** Fade-in duration in seconds at the start of the episode */
+  fadeIn: number;
+  /** Fade-out duration in seconds at the end of the episode */
+  fadeOut: number;
+  /** Crossfade duration in seconds between BGM loops. 0 joins them end to end. */
+  crossfade: number;
+  /** Lower the BGM while someone is speaking */
+  ducking: boolean;
+}
+
+export const DEFAULT_BGM_FADE_IN = 1;
+export const DEFAULT_BGM_FADE_OUT = 3;
+export const DEFAULT_BGM_CROSSFADE = 2;
+
+/**
+ * Sample rate and channels of the mixed result
+ */
+export interface MixFormat {
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Both inputs are brought to the mix format so that amix and sidechaincompress see matching streams
+ */
+function formatFilter(mixFormat: MixFormat): string {
+  return `aformat=sample_rates=${mixFormat.sampleRate}:channel_layouts=${mixFormat.channels === 1 ? 'mono' : 'stereo'}`;
+}
+
+/**
+ * A crossfade can take at most half of the BGM, otherwise the loops would overlap entirely
+ */
+export function getEffectiveCrossfade(bgmDuration: number, crossfade: number): number {
+  return Math.max(0, Math.min(crossfade, bgmDuration / 2));
+}
+
+/**
+ * Number of BGM copies needed to cover the voice track when every seam overlaps by the crossfade
+ */
+export function getBgmLoopCount(bgmDuration: number, totalDuration: number, crossfade: number): number {
+  if (bgmDuration >= totalDuration) return 1;
+  return Math.ceil((totalDuration - crossfade) / (bgmDuration - crossfade));
+}
+
+/**
+ * Build the complex filter graph. The mixed result is labelled [out].
+ */
+export function createBgmFilterGraph(
+  loopCount: number,
+  totalDuration: number,
+  crossfade: number,
+  options: BgmMixOptions,
+  mixFormat: MixFormat
+): string[] {
+  const filters: string[] = [];
+  const format = formatFilter(mixFormat);
+
+  // Join the BGM copies (inputs 1..loopCount)
+  if (loopCount === 1) {
+    filters.push(`[1:a]${format}[bg_loop]`);
+  } else if (crossfade > 0) {
+    let previous = '[1:a]';
+    for (let i = 2; i <= loopCount; i++) {
+      const label = i === loopCount ? '[bg_loop]' : `[bg_x${i}]`;
+      filters.push(`${previous}[${i}:a]acrossfade=d=${crossfade}:c1=tri:c2=tri${i === loopCount ? `,${format}` : ''}${label}`);
+      previous = label;
+    }
+  } else {
+    const concatInputs = Array.from({ length: loopCount }, (_, i) => `[${i + 1}:a]`).join('');
+    filters.push(`${concatInputs}concat=n=${loopCount}:v=0:a=1,${format}[bg_loop]`);
+  }
+
+  // Trim to the voice track, set the level and fade both ends
+  const bgChain = [`atrim=0:${totalDuration.toFixed(3)}`, `volume=${options.volume}`];
+  if (options.fadeIn > 0) {
+    bgChain.push(`afade=t=in:st=0:d=${options.fadeIn}`);
+  }
+  if (options.fadeOut > 0) {
+    const fadeOutStart = Math.max(0, totalDuration - options.fadeOut);
+    bgChain.push(`afade=t=out:st=${fadeOutStart.toFixed(3)}:d=${options.fadeOut}`);
+  }
+  filters.push(`[bg_loop]${bgChain.join(',')}[bg]`);
+
+  if (options.ducking) {
+    // The voice is split into the part that is heard and the key of the compressor
+    filters.push(`[0:a]${format},asplit=2[voice][voice_key]`);
+    filters.push('[bg][voice_key]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=400[bg_ducked]');
+    filters.push('[voice][bg_ducked]amix=inputs=2:duration=first:dropout_transition=2[out]');
+  } else {
+    filters.push(`[0:a]${format}[voice]`);
+    filters.push('[voice][bg]amix=inputs=2:duration=first:dropout_transition=2[out]');
+  }
+
+  return filters;
+}
@@ -0,0 +1,77 @@
+/**
+ * Chapter markers for the final encode and the Podcasting 2.0 chapters sidecar
+ *
+ * ffmpeg reads chapters from an FFMETADATA file and writes them as ID3v2 CHAP/CTOC
+ * frames for MP3 and as chapter atoms for MP4/M4A.
+ */
+
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+
+export interface Chapter {
+  title: string;
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+}
+
+/**
+ * Build chapters from their start offsets. Each chapter ends where the next one starts;
+ * the last one ends with the audio.
+ */
+export function buildChapters(starts: { title: string; start: number }[], totalDuration: number): Chapter[] {
+  const sorted = [...starts].sort((a, b) => a.start - b.start);
+  return sorted.map((chapter, index) => ({
+    title: chapter.title,
+    start: chapter.start,
+    end: index + 1 < sorted.length ? sorted[index + 1].start : totalDuration,
+  }));
+}
+
+/**
+ * Escape special characters of the FFMETADATA format
+ */
+function escapeMetadataValue(value: string): string {
+  return value.replace(/[=;#\\\n]/g, match => `\\${match}`);
+}
+
+export function createFfmetadata(chapters: Chapter[]): string {
+  const sections = chapters.map(chapter => [
+    '[CHAPTER]',
+    'TIMEBASE=1/1000',
+    `START=${Math.round(chapter.start * 1000)}`,
+    `END=${Math.round(chapter.end * 1000)}`,
+    `title=${escapeMetadataValue(chapter.title)}`,
+  ].join('\n'));
+  return `;FFMETADATA1\n${sections.join('\n')}\n`;
+}
+
+/**
+ * Podcasting 2.0 JSON chapters (https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md)
+ */
+export function formatPodcastChapters(chapters: Chapter[]): string {
+  const content = {
+    version: '1.2.0',
+    chapters: chapters.map(chapter => ({
+      startTime: Number(chapter.start.toFixed(3)),
+      endTime: Number(chapter.end.toFixed(3)),
+      title: chapter.title,
+    })),
+  };
+  return JSON.stringify(content, null, 2) + '\n';
+}
+
+/**
+ * Sidecar path next to the audio file: episode.mp3 -> episode.chapters.json
+ */
+export function getChaptersSidecarPath(outputFilePath: string): string {
+  const baseName = path.basename(outputFilePath, path.extname(outputFilePath));
+  return path.join(path.dirname(outputFilePath), `${baseName}.chapters.json`);
+}
+
+export async function writeChaptersSidecar(outputFilePath: string, chapters: Chapter[]): Promise<string> {
+  const sidecarPath = getChaptersSidecarPath(outputFilePath);
+  await fsPromises.writeFile(sidecarPath, formatPodcastChapters(chapters), 'utf-8');
+  return sidecarPath;
+}
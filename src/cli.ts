@@ -4,7 +4,8 @@ import * as fs from 'fs';
 import * as path from 'path';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { generateVoice, getCharacters } from './voiceService';
+import { TtsEngine, EngineName, ENGINE_NAMES, createEngine } from './ttsEngine';
+import { VoiceParams, Speaker, getMorphableTargets } from './voiceService';
 import {
   prepareAndStartEngine,
   pullImage,
@@ -15,164 +16,462 @@ import {
   getVoiceVoxEngineStatus,
   InfoMessage,
 } from './dockerService';
-import { Writer, Reader } from 'wav';
-import { Readable } from 'stream';
-import { isDialogueScript, parseDialogueScript, DialogueLine } from './scriptParser';
+import { PassThrough } from 'stream';
+import {
+  ScriptInsert,
+  checkPlainText,
+  checkVoiceSettings,
+  flattenParagraphs,
+  isDialogueScript,
+  parseScript,
+  stripStageDirections,
+} from './scriptParser';
+import { stripReadingMarkup } from './readingMarkup';
+import { printIssues, sortIssues, formatIssue } from './scriptIssues';
+import { MAX_TEXT_LENGTH, validateScript } from './scriptValidator';
+import { resolveSpeakers, resolveSpeakerReference, resolveStyleName } from './speakerResolver';
+import { hasStyleMarkup, splitStyleSpans, stripStyleTags } from './styleMarkup';
+import { FrontMatter, parseFrontMatter } from './frontMatter';
+import { DEFAULT_MAX_CHUNK_LENGTH, PARAGRAPH_PAUSE, splitText } from './textSplitter';
+import {
+  DEFAULT_ENGLISH_TABLE_FILE,
+  DEFAULT_URL_REPLACEMENT,
+  DEFAULT_NORMALIZATION_RULES,
+  NORMALIZATION_RULES,
+  NormalizeOptions,
+  createEnglishTable,
+  createNormalizeOptions,
+  loadEnglishTable,
+  normalizeText,
+  parseNormalizationRules,
+  stripMarkdown,
+} from './textNormalizer';
+import { runWithConcurrency, withRetry } from './taskPool';
+import { DEFAULT_CACHE_DIR, createCachedEngine, getCacheStats, clearCache } from './synthesisCache';
+import { Job, openJob, getDefaultJobDir } from './jobManifest';
+import { contentHash } from './contentHash';
+import { WavInfo, parseWavHeader, concatWav, createSilenceWav } from './wavUtils';
+import { AudioPart, createStreamSink, createWavFileWriter, readWavFileInfo, writeAudioParts } from './wavStream';
+import { Chapter, buildChapters, createFfmetadata, writeChaptersSidecar } from './chapters';
+import {
+  TimedSegment,
+  SUBTITLE_EXTENSIONS,
+  TRANSCRIPT_EXTENSIONS,
+  writeSubtitles,
+  writeTranscript,
+} from './subtitles';
+import {
+  DEFAULT_LOUDNESS_RANGE,
+  DEFAULT_TRUE_PEAK,
+  LoudnessMeasurement,
+  LoudnessTarget,
+  computeSpeakerGains,
+  createLoudnormFilters,
+  measureLoudness,
+  measurePcmLevel,
+  parseLoudnormOutput,
+} from './loudness';
+import {
+  BgmMixOptions,
+  MixFormat,
+  DEFAULT_BGM_CROSSFADE,
+  DEFAULT_BGM_FADE_IN,
+  DEFAULT_BGM_FADE_OUT,
+  createBgmFilterGraph,
+  getBgmLoopCount,
+  getEffectiveCrossfade,
+} from './bgmMixer';
+import {
+  EncoderOptions,
+  OUTPUT_FORMATS,
+  OutputFormat,
+  describeEncoderSettings,
+  getEncoderOutputOptions,
+  getFormatFromPath,
+  isOutputFormat,
+  resolveEncoderSettings,
+  supportsChapters,
+  supportsCoverArt,
+  supportsTags,
+} from './outputFormat';
+import {
+  AudioTags,
+  COVER_ART_EXTENSIONS,
+  createCoverArtOutputOptions,
+  createTagOutputOptions,
+  formatSpeakerList,
+  hasTags,
+  isCoverArtFile,
+} from './audioTags';
+import { createSoundEffectLoader } from './soundEffects';
+import { getAudioDuration } from './audioProbe';
+import { createFeedXml, loadEpisodes } from './podcastFeed';
+import {
+  DEFAULT_DICTIONARY_FILE,
+  DictionaryWord,
+  WORD_TYPES,
+  WordType,
+  addUserDictionaryWord,
+  deleteUserDictionaryWord,
+  findWordsBySurface,
+  formatDictionaryFile,
+  fromEngineWord,
+  getUserDictionary,
+  loadDictionaryFile,
+  sortDictionaryWords,
+  syncUserDictionary,
+  updateUserDictionaryWord,
+  validateDictionaryWord,
+} from './userDictionary';
 import cliProgress from 'cli-progress';
+import type { FfmpegCommand } from 'fluent-ffmpeg';
 const ffmpeg = require('fluent-ffmpeg');
 
-function splitText(text: string, maxLength = 600): string[] {
-  const chunks: string[] = [];
-  let remainingText = text;
-
-  while (remainingText.length > 0) {
-    if (remainingText.length <= maxLength) {
-      chunks.push(remainingText);
-      break;
-    }
-
-    const chunk = remainingText.substring(0, maxLength);
-    const lastPeriodIndex = chunk.lastIndexOf('。');
-
-    if (lastPeriodIndex !== -1) {
-      chunks.push(remainingText.substring(0, lastPeriodIndex + 1));
-      remainingText = remainingText.substring(lastPeriodIndex + 1).trim();
-    } else {
-      chunks.push(chunk);
-      remainingText = remainingText.substring(maxLength).trim();
-    }
-  }
-
-  return chunks;
-}
-
 /**
- * Get the duration of an audio file in seconds using ffprobe
+ * A unit of synthesis: one dialogue line, or one chunk of the text in single-speaker mode
  */
-async function getAudioDuration(filePath: string): Promise<number> {
-  return new Promise((resolve, reject) => {
-    ffmpeg.ffprobe(filePath, (err: Error | null, metadata: any) => {
-      if (err) {
-        reject(new Error(`Failed to get audio duration: ${err.message}`));
-        return;
-      }
-      const duration = metadata.format.duration;
-      if (typeof duration !== 'number' || isNaN(duration)) {
-        reject(new Error('Failed to get valid audio duration'));
-        return;
-      }
-      resolve(duration);
-    });
-  });
+interface SynthesisLine {
+  /** Used in error messages to point at the failing part of the script */
+  label: string;
+  /** Title of the chapter that starts at this line */
+  chapter?: string;
+  /** Text sent to the engine, after normalization */
+  text: string;
+  /**
+   * Parts of the line spoken in other styles (<style=...> spans), in order. Each part is
+   * synthesized on its own and joined back into the line. Unset when the whole line is spoken
+   * in the style of `voice`.
+   */
+  styleParts?: StylePart[];
+  /** Script text shown in subtitles */
+  displayText: string;
+  /** Script text written to transcripts, with stage directions */
+  transcriptText: string;
+  /** Everything sent to the engine besides the text */
+  voice: Omit<VoiceParams, 'text'>;
+  /** Silence and sound effects placed before the line when assembling the output */
+  before: TimelineItem[];
+  /** Silence and sound effects placed after the line when assembling the output */
+  after: TimelineItem[];
+}
+
+interface StylePart {
+  /** Text sent to the engine, after normalization */
+  text: string;
+  characterId: number;
+  /** A paragraph break follows the part */
+  paragraphEnd: boolean;
 }
 
 /**
- * Combine multiple WAV audio buffers into a single buffer
+ * Audio other than synthesized speech on the output timeline
  */
-async function combineAudioBuffers(audioBuffers: Buffer[]): Promise<Buffer> {
-  if (audioBuffers.length === 0) {
-    throw new Error('No audio buffers to combine');
+type TimelineItem =
+  | { type: 'silence'; seconds: number }
+  | {
+    type: 'sfx';
+    /** Absolute path of the audio file */
+    file: string;
+    volume: number;
   }
+  /** A stage direction: no audio, only a transcript entry */
+  | { type: 'direction'; text: string };
 
-  if (audioBuffers.length === 1) {
-    return audioBuffers[0];
-  }
-
-  let format: any = null;
-  const audioDataChunks: Buffer[] = [];
-
-  for (let i = 0; i < audioBuffers.length; i++) {
-    const buffer = audioBuffers[i];
-    const readable = new Readable();
-    readable.push(buffer);
-    readable.push(null); // End of stream
-
-    const reader = new Reader();
-    const chunks: Buffer[] = [];
-
-    // Set up data handler
-    reader.on('data', (chunk: Buffer) => {
-      chunks.push(chunk);
-    });
-
-    // Capture format from first file
-    if (i === 0) {
-      reader.on('format', (fmt: any) => {
-        format = fmt;
-      });
+/**
+ * Turn @pause/@sfx directives and stage directions into timeline items. Sound effect paths are relative to the script file.
+ */
+function toTimelineItems(inserts: ScriptInsert[] | undefined, scriptDir: string): TimelineItem[] {
+  return (inserts ?? []).map((insert): TimelineItem => {
+    switch (insert.type) {
+      case 'pause':
+        return { type: 'silence', seconds: insert.seconds };
+      case 'sfx':
+        return { type: 'sfx', file: path.resolve(scriptDir, insert.file), volume: insert.volume };
+      case 'direction':
+        return { type: 'direction', text: insert.text };
     }
+  });
+}
 
-    // Pipe readable to reader
-    readable.pipe(reader);
-
-    // Wait for all data to be read
-    await new Promise<void>((resolve, reject) => {
-      const cleanup = () => {
-        // Clean up event listeners
-        reader.removeAllListeners();
-        readable.removeAllListeners();
-        // Unpipe to break the connection
-        readable.unpipe(reader);
-        // Destroy readable if method exists
-        if (typeof readable.destroy === 'function') {
-          readable.destroy();
-        }
-      };
+interface SynthesisOptions {
+  /** Maximum number of chunks synthesized at the same time */
+  concurrency: number;
+  /** Retries per chunk for transient engine errors */
+  retries: number;
+  /** Longer lines are split into chunks of at most this many characters */
+  maxChunkLength: number;
+}
 
-      reader.on('end', () => {
-        if (chunks.length > 0) {
-          audioDataChunks.push(Buffer.concat(chunks));
-        }
-        cleanup();
-        resolve();
-      });
-      reader.on('error', (err) => {
-        cleanup();
-        reject(err);
-      });
+/**
+ * Synthesize every line that the job has not completed yet through a bounded worker pool.
+ * Each line is saved to the job as soon as all of its chunks are done.
+ * A failing chunk does not stop the other chunks; all failures are reported together at the end.
+ */
+async function synthesizeLines(
+  engine: TtsEngine,
+  lines: SynthesisLine[],
+  job: Job,
+  options: SynthesisOptions
+): Promise<void> {
+  const { concurrency, retries, maxChunkLength } = options;
+
+  // Split long text (or each style part of it) into chunks and flatten them into one task list
+  const tasks = lines.flatMap((line, lineIndex) => {
+    if (job.isLineCompleted(lineIndex)) return [];
+    const parts = line.styleParts ?? [{ text: line.text, characterId: line.voice.characterId, paragraphEnd: false }];
+    const chunks = parts.flatMap(part => {
+      const partChunks = splitText(part.text, maxChunkLength);
+      return partChunks.map((chunk, index) => ({
+        text: chunk.text,
+        characterId: part.characterId,
+        paragraphEnd: chunk.paragraphEnd || (part.paragraphEnd && index === partChunks.length - 1),
+      }));
     });
-  }
+    return chunks.map((chunk, chunkIndex) => ({
+      lineIndex,
+      chunkIndex,
+      chunkCount: chunks.length,
+      ...chunk,
+    }));
+  });
 
-  if (!format) {
-    throw new Error('Failed to read WAV format from first file');
+  if (tasks.length === 0) {
+    console.log('All lines were already synthesized.');
+    return;
   }
 
-  // Combine all audio data
-  const combinedAudioData = Buffer.concat(audioDataChunks);
-
-  // Create a new WAV buffer with the combined data
-  const tempBuffer: Buffer[] = [];
-  const writer = new Writer(format);
+  console.log(`Synthesizing ${tasks.length} chunks (concurrency: ${concurrency})...`);
 
-  writer.on('data', (chunk: Buffer) => {
-    tempBuffer.push(chunk);
+  // Create progress bar
+  const progressBar = new cliProgress.SingleBar({
+    format: 'Progress |{bar}| {percentage}% | {value}/{total} chunks completed',
+    barCompleteChar: '\u2588',
+    barIncompleteChar: '\u2591',
+    hideCursor: true,
   });
-
-  writer.write(combinedAudioData);
-  writer.end();
-
-  // Wait for writer to finish
-  await new Promise<void>((resolve, reject) => {
-    writer.on('end', () => {
-      resolve();
-    });
-    writer.on('error', (err) => {
-      reject(err);
-    });
+  progressBar.start(tasks.length, 0);
+
+  let completedCount = 0;
+  // Chunks of lines that are still in progress
+  const pendingChunks = new Map<number, { audio: Buffer; paragraphEnd: boolean }[]>();
+
+  const results = await runWithConcurrency(tasks, concurrency, async (task) => {
+    const line = lines[task.lineIndex];
+    const audioBuffer = await withRetry(
+      () => engine.synthesize({ ...line.voice, characterId: task.characterId, text: task.text }),
+      {
+        retries,
+        baseDelayMs: 1000,
+        onRetry: (error, attempt, delayMs) => {
+          const message = error instanceof Error ? error.message : String(error);
+          console.warn(`\nWarning: ${line.label} failed (${message}). Retrying in ${delayMs / 1000}s (attempt ${attempt}/${retries})...`);
+        },
+      }
+    );
+    completedCount++;
+    progressBar.update(completedCount);
+
+    const chunks = pendingChunks.get(task.lineIndex) ?? [];
+    chunks[task.chunkIndex] = { audio: audioBuffer, paragraphEnd: task.paragraphEnd };
+    pendingChunks.set(task.lineIndex, chunks);
+
+    // Save the line once its last chunk is done. Paragraphs of an utterance are joined with a short pause.
+    if (chunks.filter(Boolean).length === task.chunkCount) {
+      pendingChunks.delete(task.lineIndex);
+      const parts = chunks.flatMap(chunk => chunk.paragraphEnd
+        ? [chunk.audio, createSilenceWav(parseWavHeader(chunk.audio).format, PARAGRAPH_PAUSE)]
+        : [chunk.audio]);
+      await job.completeLine(task.lineIndex, concatWav(parts));
+    }
+  });
+  progressBar.stop();
+
+  const failures: string[] = [];
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      const task = tasks[index];
+      const chunkLabel = task.chunkCount > 1 ? ` (chunk ${task.chunkIndex + 1}/${task.chunkCount})` : '';
+      const message = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      failures.push(`${lines[task.lineIndex].label}${chunkLabel}: ${message}`);
+    }
   });
 
-  return Buffer.concat(tempBuffer);
+  if (failures.length > 0) {
+    throw new Error(
+      `Failed to synthesize ${failures.length} of ${tasks.length} chunks:\n${failures.map(f => `  - ${f}`).join('\n')}\n`
+      + `Completed lines were saved to ${job.dir}. Re-run with --resume to synthesize only the missing lines.`
+    );
+  }
 }
 
+
 interface GenerateAudioOptions {
+  engine: TtsEngine;
   textFilePath: string;
   outputFilePath: string;
   characterId?: number;
   pitch?: number;
   intonationScale?: number;
   speed?: number;
+  volumeScale?: number;
+  /** Silence in seconds the engine adds before every line */
+  prePhonemeLength?: number;
+  /** Silence in seconds the engine adds after every line */
+  postPhonemeLength?: number;
+  /** Scale of the pauses at punctuation */
+  pauseLengthScale?: number;
+  /** Sampling rate the engine synthesizes at */
+  outputSamplingRate?: number;
+  /** Have the engine synthesize in stereo */
+  outputStereo?: boolean;
   bgmFile?: string;
   bgmVolume?: number;
+  concurrency?: number;
+  retries?: number;
+  /** Maximum number of characters sent to the engine at a time */
+  maxChunkLength?: number;
+  /** Directory of the synthesis cache. Caching is disabled when omitted. */
+  cacheDir?: string;
+  /** Directory for the job manifest and per-line WAV files. Defaults to a hidden directory next to the output. */
+  jobDir?: string;
+  /** Reuse lines completed by a previous interrupted run */
+  resume?: boolean;
+  /** Write SRT or WebVTT subtitles to this path */
+  subtitlesFile?: string;
+  /** Write a timestamped text or JSON transcript to this path */
+  transcriptFile?: string;
+  /** Prefix subtitle cues with the speaker name */
+  subtitleSpeakers?: boolean;
+  /** Maximum number of characters per subtitle cue */
+  maxCueLength?: number;
+  /** Silence in seconds between consecutive dialogue lines */
+  lineGap?: number;
+  /** Silence in seconds between lines of different speakers. Falls back to lineGap. */
+  speakerChangeGap?: number;
+  /** Fail before synthesis if the script has any warnings */
+  strict?: boolean;
+  /** Output format. Defaults to the extension of the output file. */
+  format?: OutputFormat;
+  /** Bitrate, VBR quality, sample rate and channels of the output */
+  encoder?: EncoderOptions;
+  /** Title, artist, album, episode and comment tags. Unset tags are read from the front-matter. */
+  tags?: AudioTags;
+  /** Cover art image (JPEG or PNG) */
+  coverFile?: string;
+  /** Jingle played before the first line */
+  introFile?: string;
+  /** Jingle played after the last line */
+  outroFile?: string;
+  /** BGM fade-in duration in seconds */
+  bgmFadeIn?: number;
+  /** BGM fade-out duration in seconds, added after the last line */
+  bgmFadeOut?: number;
+  /** Crossfade duration in seconds between BGM loops */
+  bgmCrossfade?: number;
+  /** Seconds of BGM before the first line */
+  bgmIntro?: number;
+  /** Lower the BGM under speech */
+  bgmDucking?: boolean;
+  /** Normalize the final mix to this integrated loudness in LUFS (two-pass loudnorm) */
+  loudness?: number;
+  /** Maximum true peak in dBTP when normalizing loudness */
+  truePeak?: number;
+  /** Match the level of every speaker before the lines are joined */
+  matchSpeakerLevels?: boolean;
+  /** Rewriting of the text before synthesis. Unset rules are read from the front-matter. */
+  normalize?: Partial<NormalizeOptions>;
+}
+
+/**
+ * Normalization options for a script: rules from the command line, then from the front-matter
+ */
+function resolveNormalizeOptions(frontMatter: FrontMatter, options: Partial<NormalizeOptions> = {}): NormalizeOptions {
+  let rules = options.rules;
+  if (rules === undefined && frontMatter.normalize !== undefined) {
+    try {
+      rules = parseNormalizationRules(frontMatter.normalize);
+    } catch (error) {
+      throw new Error(`Front-matter "normalize": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return createNormalizeOptions({ ...options, rules });
+}
+
+/**
+ * Text sent to the engine for a part of the script. Text that normalization leaves empty
+ * (e.g. a bare URL with --url-replacement "") is read as written instead.
+ */
+function toSpokenText(text: string, options: NormalizeOptions, label: string): string {
+  const normalized = normalizeText(text, options);
+  if (normalized.length === 0 && text.trim().length > 0) {
+    console.warn(`Warning: ${label} is empty after normalization and is read as written.`);
+    return text;
+  }
+  return normalized;
+}
+
+/**
+ * Whether a paragraph break separates two neighbouring parts of an utterance
+ */
+function isParagraphBreakBetween(text: string, next: string): boolean {
+  return /\n\s*\n\s*$/.test(`${text}${next.match(/^\s*/)?.[0] ?? ''}`);
+}
+
+/**
+ * Text shown in subtitles and transcripts: the written form of reading markup, without Markdown
+ * when the markdown rule is on
+ */
+function toDisplayText(text: string, options: NormalizeOptions): string {
+  const written = stripReadingMarkup(text);
+  return options.rules.includes('markdown') ? stripMarkdown(written).trim() : written;
+}
+
+/**
+ * Print what will be spoken for every line of a script, without starting the engine
+ */
+async function showNormalizedText(
+  textFilePath: string,
+  normalize: Partial<NormalizeOptions>,
+  maxChunkLength = DEFAULT_MAX_CHUNK_LENGTH
+): Promise<void> {
+  const rawText = await fsPromises.readFile(path.resolve(textFilePath), 'utf-8');
+  const { frontMatter, body } = parseFrontMatter(rawText);
+  const normalizeOptions = resolveNormalizeOptions(frontMatter, normalize);
+
+  const lines = isDialogueScript(body)
+    ? parseScript(body).lines.map(line => ({ label: `Line ${line.lineNumber} (${line.speaker})`, text: stripStyleTags(stripStageDirections(line.text)) }))
+    : splitText(body, maxChunkLength).map((chunk, index) => ({ label: `Chunk ${index + 1}`, text: chunk.text }));
+
+  console.log(`Normalization rules: ${normalizeOptions.rules.length > 0 ? normalizeOptions.rules.join(', ') : 'none'}`);
+  for (const line of lines) {
+    console.log(`${line.label}: ${toSpokenText(line.text, normalizeOptions, line.label)}`);
+  }
+}
+
+/**
+ * Check the voice parameters given on the command line or in the front-matter. Unusable values
+ * are errors; values outside the recommended range are warnings, as in scripts.
+ */
+function checkVoiceParameters(values: Parameters<typeof checkVoiceSettings>[0]): void {
+  const { errors, warnings } = checkVoiceSettings(values);
+  if (errors.length > 0) throw new Error(`${errors.join('. ')}.`);
+  for (const warning of warnings) {
+    console.warn(`Warning: ${warning}`);
+  }
+}
+
+/**
+ * Map every style ID to its character name (e.g. 3 -> "ずんだもん")
+ */
+async function getSpeakerNames(engine: TtsEngine): Promise<Map<number, string>> {
+  const speakers = await engine.listSpeakers();
+  const names = new Map<number, string>();
+  for (const speaker of speakers) {
+    for (const style of speaker.styles) {
+      names.set(style.id, speaker.name);
+    }
+  }
+  return names;
 }
 
 /**
@@ -180,30 +479,113 @@ interface GenerateAudioOptions {
  */
 async function generateAudio(options: GenerateAudioOptions): Promise<void> {
   const {
+    engine,
     textFilePath,
     outputFilePath,
-    characterId,
-    pitch = 0,
-    intonationScale = 1,
-    speed = 1,
-    bgmFile,
-    bgmVolume = 0.05,
+    concurrency = 4,
+    maxChunkLength = DEFAULT_MAX_CHUNK_LENGTH,
+    retries = 3,
+    cacheDir,
+    jobDir = getDefaultJobDir(outputFilePath),
+    resume = false,
+    subtitlesFile,
+    transcriptFile,
+    subtitleSpeakers = false,
+    maxCueLength = 40,
+    strict = false,
+    truePeak = DEFAULT_TRUE_PEAK,
+    matchSpeakerLevels = false,
   } = options;
 
   const resolvedTextFilePath = path.resolve(textFilePath);
   const resolvedOutputFilePath = path.resolve(outputFilePath);
 
   console.log(`Reading text from: ${resolvedTextFilePath}`);
-  const text = await fsPromises.readFile(resolvedTextFilePath, 'utf-8');
+  const rawText = await fsPromises.readFile(resolvedTextFilePath, 'utf-8');
 
-  if (!text) {
+  if (!rawText) {
     throw new Error('Input text file is empty.');
   }
 
   // Check text length limit (100,000 characters)
-  const MAX_TEXT_LENGTH = 100000;
-  if (text.length > MAX_TEXT_LENGTH) {
-    throw new Error(`Text file is too long (${text.length} characters). Maximum allowed length is ${MAX_TEXT_LENGTH} characters.`);
+  if (rawText.length > MAX_TEXT_LENGTH) {
+    throw new Error(`Text file is too long (${rawText.length} characters). Maximum allowed length is ${MAX_TEXT_LENGTH} characters.`);
+  }
+
+  // Per-episode defaults from the front-matter. Precedence: CLI flags > front-matter > built-in defaults.
+  const { frontMatter, body: text, issues: frontMatterIssues } = parseFrontMatter(rawText);
+  const scriptDir = path.dirname(resolvedTextFilePath);
+  const pitch = options.pitch ?? frontMatter.pitch ?? 0;
+  const intonationScale = options.intonationScale ?? frontMatter.intonationScale ?? 1;
+  const speed = options.speed ?? frontMatter.speed ?? 1;
+  // Unset settings keep the engine's defaults
+  const voiceDefaults = {
+    pitch,
+    intonationScale,
+    speed,
+    volumeScale: options.volumeScale ?? frontMatter.volumeScale,
+    prePhonemeLength: options.prePhonemeLength ?? frontMatter.prePhonemeLength,
+    postPhonemeLength: options.postPhonemeLength ?? frontMatter.postPhonemeLength,
+    pauseLengthScale: options.pauseLengthScale ?? frontMatter.pauseLengthScale,
+    outputSamplingRate: options.outputSamplingRate ?? frontMatter.outputSamplingRate,
+    outputStereo: options.outputStereo,
+  };
+  const lineGap = options.lineGap ?? frontMatter.lineGap ?? 0;
+  const speakerChangeGap = options.speakerChangeGap ?? frontMatter.speakerChangeGap;
+  const bgmVolume = options.bgmVolume ?? frontMatter.bgmVolume ?? 0.05;
+  // A BGM path in the front-matter is relative to the script file
+  const bgmFile = options.bgmFile ?? (frontMatter.bgm ? path.resolve(scriptDir, frontMatter.bgm) : undefined);
+  const loudness = options.loudness ?? frontMatter.loudness;
+  // Intro/outro paths in the front-matter are relative to the script file, like the BGM
+  const introFile = options.introFile ? path.resolve(options.introFile) : (frontMatter.intro ? path.resolve(scriptDir, frontMatter.intro) : undefined);
+  const outroFile = options.outroFile ? path.resolve(options.outroFile) : (frontMatter.outro ? path.resolve(scriptDir, frontMatter.outro) : undefined);
+  const defaultSpeaker = options.characterId !== undefined ? String(options.characterId) : frontMatter.speaker;
+  const normalizeOptions = resolveNormalizeOptions(frontMatter, options.normalize);
+
+  if (frontMatter.title) {
+    console.log(`Title: ${frontMatter.title}`);
+  }
+
+  // Output format: --format, otherwise the extension of the output file
+  const extensionFormat = getFormatFromPath(resolvedOutputFilePath);
+  const outputFormat = options.format ?? extensionFormat;
+  if (!outputFormat) {
+    throw new Error(`Cannot tell the output format from ${path.basename(resolvedOutputFilePath)}. Use one of the extensions ${OUTPUT_FORMATS.map(f => `.${f}`).join(', ')} or set --format.`);
+  }
+  if (options.format && extensionFormat && options.format !== extensionFormat) {
+    throw new Error(`--format ${options.format} does not match the output file extension .${extensionFormat}.`);
+  }
+  if (frontMatter.format && frontMatter.format !== outputFormat) {
+    console.warn(`Warning: Front-matter format "${frontMatter.format}" differs from the output format; writing ${outputFormat} as given on the command line.`);
+  }
+  const encoder = resolveEncoderSettings(outputFormat, options.encoder);
+
+  // Tags and cover art from the command line, then from the front-matter
+  const { metadata } = frontMatter;
+  const tags: AudioTags = {
+    title: options.tags?.title ?? frontMatter.title,
+    artist: options.tags?.artist ?? metadata.artist,
+    album: options.tags?.album ?? metadata.album,
+    episode: options.tags?.episode ?? metadata.episode,
+    comment: options.tags?.comment ?? metadata.comment,
+  };
+  const coverFile = options.coverFile
+    ? path.resolve(options.coverFile)
+    : (metadata.cover ? path.resolve(scriptDir, metadata.cover) : undefined);
+  if (coverFile) {
+    if (!isCoverArtFile(coverFile)) {
+      throw new Error(`Unsupported cover art: ${coverFile}. Use one of: ${COVER_ART_EXTENSIONS.join(', ')}`);
+    }
+    try {
+      await fsPromises.access(coverFile, fs.constants.F_OK);
+    } catch {
+      throw new Error(`Cover art file not found: ${coverFile}`);
+    }
+  }
+  if (outputFormat === 'wav' && (hasTags(options.tags ?? {}) || options.coverFile)) {
+    console.warn('Warning: Tags and cover art are not written to WAV files.');
+  } else if (coverFile && !supportsCoverArt(outputFormat)) {
+    console.warn(`Warning: Cover art is not embedded in ${outputFormat} files.`);
   }
 
   // Validate output directory exists
@@ -230,288 +612,820 @@ async function generateAudio(options: GenerateAudioOptions): Promise<void> {
     }
   }
 
+  const bgmMix: BgmMixOptions & { intro: number } = {
+    volume: bgmVolume,
+    fadeIn: options.bgmFadeIn ?? DEFAULT_BGM_FADE_IN,
+    fadeOut: options.bgmFadeOut ?? DEFAULT_BGM_FADE_OUT,
+    crossfade: options.bgmCrossfade ?? DEFAULT_BGM_CROSSFADE,
+    intro: options.bgmIntro ?? 0,
+    ducking: options.bgmDucking ?? false,
+  };
+  if (bgmMix.fadeIn < 0 || bgmMix.fadeOut < 0 || bgmMix.crossfade < 0 || bgmMix.intro < 0) {
+    throw new Error('--bgm-fade-in, --bgm-fade-out, --bgm-crossfade and --bgm-intro must not be negative.');
+  }
+
+  if (lineGap < 0 || (speakerChangeGap !== undefined && speakerChangeGap < 0)) {
+    throw new Error('--line-gap and --speaker-change-gap must not be negative.');
+  }
+
+  const { outputSamplingRate, outputStereo, ...prosody } = voiceDefaults;
+  checkVoiceParameters({ ...prosody, outputSamplingRate });
+
+  // loudnorm accepts integrated loudness from -70 to -5 LUFS and true peak from -9 to 0 dBTP
+  if (loudness !== undefined && !(loudness >= -70 && loudness <= -5)) {
+    throw new Error(`--loudness must be between -70 and -5 LUFS (got ${loudness}).`);
+  }
+  if (!(truePeak >= -9 && truePeak <= 0)) {
+    throw new Error(`--true-peak must be between -9 and 0 dBTP (got ${truePeak}).`);
+  }
+  const loudnessTarget: LoudnessTarget | undefined = loudness !== undefined
+    ? { integrated: loudness, truePeak, range: DEFAULT_LOUDNESS_RANGE }
+    : undefined;
+
+  // Validate subtitle/transcript formats before spending time on synthesis
+  if (subtitlesFile && !SUBTITLE_EXTENSIONS.includes(path.extname(subtitlesFile).toLowerCase())) {
+    throw new Error(`Unsupported subtitle format: ${subtitlesFile}. Use one of: ${SUBTITLE_EXTENSIONS.join(', ')}`);
+  }
+  if (transcriptFile && !TRANSCRIPT_EXTENSIONS.includes(path.extname(transcriptFile).toLowerCase())) {
+    throw new Error(`Unsupported transcript format: ${transcriptFile}. Use one of: ${TRANSCRIPT_EXTENSIONS.join(', ')}`);
+  }
+
   // Detect if this is a dialogue script
   const isDialogue = isDialogueScript(text);
+  const parsedScript = isDialogue ? parseScript(text) : undefined;
 
-  let audioBuffers: Buffer[];
+  // Report every problem in the script up front; --strict refuses to synthesize a script with warnings
+  const scriptIssues = sortIssues([...frontMatterIssues, ...(parsedScript ? parsedScript.issues : checkPlainText(text))]);
+  printIssues(scriptIssues, resolvedTextFilePath);
+  if (strict && scriptIssues.length > 0) {
+    throw new Error(`The script has ${scriptIssues.length} warning(s) and --strict is set. Fix them or run 'validate' for details.`);
+  }
+
+  let synthesisLines: SynthesisLine[];
 
-  if (isDialogue) {
-    // Dialogue mode: parse script and generate audio for each line
+  if (parsedScript) {
+    // Dialogue mode: generate audio for each parsed line
     console.log('Detected dialogue script format. Processing in dialogue mode...');
-    const dialogueLines = parseDialogueScript(text);
+    const parsedLines = parsedScript.lines;
 
-    if (dialogueLines.length === 0) {
+    if (parsedLines.length === 0) {
       throw new Error('No valid dialogue lines found in the script.');
     }
 
+    // Speakers and styles written by name are looked up in the engine's speaker list
+    const needsSpeakerList = parsedLines.some(line =>
+      line.characterId === undefined || hasStyleMarkup(line.text) || (line.morph !== undefined && line.morph.targetId === undefined));
+    const speakers = needsSpeakerList ? await engine.listSpeakers() : [];
+    const dialogueLines = resolveSpeakers(parsedLines, speakers);
+
     console.log(`Found ${dialogueLines.length} dialogue lines.`);
     console.log('Generating audio for each line...');
-    console.time('Voice generation time');
-
-    // Default parameters
-    const defaultPitch = pitch;
-    const defaultIntonationScale = intonationScale;
-    const defaultSpeed = speed;
-
-    // Calculate total number of chunks across all lines
-    const totalChunks = dialogueLines.reduce((sum, line) => {
-      return sum + splitText(line.text).length;
-    }, 0);
-
-    // Create progress bar
-    const progressBar = new cliProgress.SingleBar({
-      format: 'Progress |{bar}| {percentage}% | {value}/{total} chunks completed',
-      barCompleteChar: '\u2588',
-      barIncompleteChar: '\u2591',
-      hideCursor: true,
+
+    // Line parameters override the defaults given on the command line
+    synthesisLines = dialogueLines.map((line, index) => {
+      const previousLine = index > 0 ? dialogueLines[index - 1] : undefined;
+      const isSpeakerChange = previousLine !== undefined && previousLine.characterId !== line.characterId;
+      const gap = previousLine === undefined ? 0 : (isSpeakerChange ? speakerChangeGap ?? lineGap : lineGap);
+      const label = `Line ${line.lineNumber}`;
+      const spokenText = stripStageDirections(line.text);
+
+      // <style=...> spans are spoken in another style of the line's character
+      const spans = splitStyleSpans(spokenText);
+      const styleParts = spans.some(span => span.style !== undefined)
+        ? spans.map((span, spanIndex): StylePart => ({
+          text: toSpokenText(span.text, normalizeOptions, label),
+          characterId: span.style === undefined ? line.characterId : resolveStyleName(line.characterId, span.style, speakers),
+          paragraphEnd: spanIndex < spans.length - 1 && isParagraphBreakBetween(span.text, spans[spanIndex + 1].text),
+        }))
+        : undefined;
+
+      return {
+        label,
+        chapter: line.chapter,
+        text: toSpokenText(stripStyleTags(spokenText), normalizeOptions, label),
+        styleParts,
+        displayText: toDisplayText(flattenParagraphs(stripStyleTags(spokenText)), normalizeOptions),
+        transcriptText: toDisplayText(flattenParagraphs(stripStyleTags(line.text)), normalizeOptions),
+        voice: {
+          characterId: line.characterId,
+          outputSamplingRate,
+          outputStereo,
+          pitch: line.pitch ?? pitch,
+          intonationScale: line.intonationScale ?? intonationScale,
+          speed: line.speed ?? speed,
+          volumeScale: line.volumeScale ?? prosody.volumeScale,
+          prePhonemeLength: line.prePhonemeLength ?? prosody.prePhonemeLength,
+          postPhonemeLength: line.postPhonemeLength ?? prosody.postPhonemeLength,
+          pauseLengthScale: line.pauseLengthScale ?? prosody.pauseLengthScale,
+          morph: line.morph ? { targetId: line.morph.targetId, rate: line.morph.rate } : undefined,
+        },
+        before: [
+          { type: 'silence', seconds: gap },
+          ...toTimelineItems(line.before, scriptDir),
+          { type: 'silence', seconds: line.pre ?? 0 },
+        ],
+        after: [
+          { type: 'silence', seconds: line.post ?? 0 },
+          ...toTimelineItems(line.after, scriptDir),
+        ],
+      };
     });
-    progressBar.start(totalChunks, 0);
-
-    let completedCount = 0;
-
-    // Generate audio for each dialogue line
-    const audioPromises = dialogueLines.map((line, index) => {
-      const lineIndex = index + 1;
-      const lineCharacterId = line.characterId;
-      const linePitch = line.pitch ?? defaultPitch;
-      const lineIntonationScale = line.intonationScale ?? defaultIntonationScale;
-      const lineSpeed = line.speed ?? defaultSpeed;
-
-      // Split long text into chunks if needed
-      const textChunks = splitText(line.text);
-
-      // Generate audio for each chunk of this line
-      const chunkPromises = textChunks.map((chunk, chunkIndex) => {
-        return generateVoice({
-          text: chunk,
-          characterId: lineCharacterId,
-          pitch: linePitch,
-          intonationScale: lineIntonationScale,
-          speed: lineSpeed,
-        }).then((audioBuffer) => {
-          completedCount++;
-          progressBar.update(completedCount);
-          return { chunkIndex, audioBuffer };
-        });
-      });
+  } else {
+    // Single-speaker mode: every chunk is its own line so that --resume works per chunk
+    if (defaultSpeaker === undefined) {
+      throw new Error('Character ID is required for single-speaker mode. Use -c or --character-id option, or set "speaker" in the front-matter.');
+    }
+    const characterId = resolveSpeakerReference(
+      defaultSpeaker,
+      /^\d+$/.test(defaultSpeaker) ? [] : await engine.listSpeakers()
+    );
+
+    // Paragraph breaks become short pauses
+    const textChunks = splitText(text, maxChunkLength);
+    console.log(`Splitted text into ${textChunks.length} chunks.`);
+
+    synthesisLines = textChunks.map((chunk, index) => ({
+      label: `Chunk ${index + 1}`,
+      text: toSpokenText(chunk.text, normalizeOptions, `Chunk ${index + 1}`),
+      displayText: toDisplayText(chunk.text, normalizeOptions),
+      transcriptText: toDisplayText(chunk.text, normalizeOptions),
+      voice: { characterId, ...voiceDefaults },
+      before: [],
+      after: chunk.paragraphEnd ? [{ type: 'silence', seconds: PARAGRAPH_PAUSE }] : [],
+    }));
+  }
+
+  // Unsupported engines and style pairs would otherwise only fail during synthesis
+  if (synthesisLines.some(line => line.voice.morph)) {
+    await checkMorphing(engine, synthesisLines);
+  }
+
+  // Intro and outro stingers frame the whole episode
+  if (introFile) {
+    synthesisLines[0].before.unshift({ type: 'sfx', file: introFile, volume: 1 });
+  }
+  if (outroFile) {
+    synthesisLines[synthesisLines.length - 1].after.push({ type: 'sfx', file: outroFile, volume: 1 });
+  }
+
+  // Check every sound effect before spending time on synthesis
+  const missingSoundFiles = [...new Set(synthesisLines
+    .flatMap(line => [...line.before, ...line.after])
+    .flatMap(item => item.type === 'sfx' ? [item.file] : []))]
+    .filter(file => !fs.existsSync(file));
+  if (missingSoundFiles.length > 0) {
+    throw new Error(`Sound effect file(s) not found:\n${missingSoundFiles.map(file => `  - ${file}`).join('\n')}`);
+  }
+
+  const job = await openJob(jobDir, {
+    textFilePath: resolvedTextFilePath,
+    outputFilePath: resolvedOutputFilePath,
+    lines: synthesisLines.map(line => ({
+      label: line.label,
+      hash: contentHash({ engine: engine.name, text: line.text, voice: line.voice, styleParts: line.styleParts }),
+    })),
+  }, resume);
+
+  if (job.resumedLineCount > 0) {
+    console.log(`Resuming job: ${job.resumedLineCount} of ${synthesisLines.length} lines already completed.`);
+  }
+
+  // Reuse chunks that were already synthesized with the same text and parameters
+  const cachedEngine = cacheDir ? createCachedEngine(engine, cacheDir) : undefined;
+
+  console.time('Voice generation time');
+  await synthesizeLines(cachedEngine ?? engine, synthesisLines, job, { concurrency, retries, maxChunkLength });
+  console.timeEnd('Voice generation time');
+
+  if (cachedEngine) {
+    const { hits, misses } = cachedEngine.cacheUsage;
+    console.log(`Synthesis cache: ${hits} reused, ${misses} newly synthesized.`);
+  }
+
+  console.log('Assembling audio...');
+
+  // Only the headers of the per-line files are read here; their PCM is streamed into the output later
+  const lineFilePaths = job.getLineFilePaths();
+  const lineInfos: WavInfo[] = [];
+  for (const lineFilePath of lineFilePaths) {
+    lineInfos.push(await readWavFileInfo(lineFilePath));
+  }
 
-      return Promise.all(chunkPromises).then(chunkResults => {
-        // Sort chunks by index and combine them for this line
-        const sortedChunks = chunkResults
-          .sort((a, b) => a.chunkIndex - b.chunkIndex)
-          .map(result => result.audioBuffer);
-
-        // Combine chunks for this line into a single buffer
-        return combineAudioBuffers(sortedChunks).then(combinedBuffer => ({
-          lineIndex,
-          audioBuffer: combinedBuffer,
-        }));
+  // Bring every speaker to the same level before the lines are joined.
+  // Lines are measured one at a time and the gain is applied while they are streamed.
+  let speakerGains = new Map<number, number>();
+  if (matchSpeakerLevels) {
+    const lineLevels: { speaker: number; level: number | undefined }[] = [];
+    for (let index = 0; index < lineFilePaths.length; index++) {
+      lineLevels.push({
+        speaker: synthesisLines[index].voice.characterId,
+        level: measurePcmLevel(await fsPromises.readFile(lineFilePaths[index])),
       });
-    });
+    }
+    speakerGains = computeSpeakerGains(lineLevels);
+    if (speakerGains.size > 1) {
+      for (const [characterId, gain] of speakerGains) {
+        console.log(`Level match: character ${characterId} ${gain >= 0 ? '+' : ''}${gain.toFixed(1)} dB`);
+      }
+    }
+  }
 
-    // Wait for all lines to complete
-    const results = await Promise.all(audioPromises);
-    progressBar.stop();
-    audioBuffers = results
-      .sort((a, b) => a.lineIndex - b.lineIndex)
-      .map(result => result.audioBuffer);
+  // Place every line on the output timeline using its WAV sample count,
+  // rendering gaps and pauses as silence and decoding sound effects in the format of the synthesized lines
+  const wavFormat = lineInfos[0].format;
+  const loadSoundEffect = createSoundEffectLoader(wavFormat);
+  const timelineParts: AudioPart[] = [];
+  const segments: TimedSegment[] = [];
+  const chapterStarts: { title: string; start: number }[] = [];
+  let timelineCursor = 0;
+
+  // BGM lead-in: the music plays alone for a moment before the first line
+  if (resolvedBgmFilePath && bgmMix.intro > 0) {
+    timelineParts.push({ type: 'silence', seconds: bgmMix.intro });
+    timelineCursor += bgmMix.intro;
+  }
 
-    console.timeEnd('Voice generation time');
-  } else {
-    // Single-speaker mode: use existing logic
-    if (characterId === undefined) {
-      throw new Error('Character ID is required for single-speaker mode. Use -c or --character-id option.');
+  const placeItems = async (items: TimelineItem[]): Promise<void> => {
+    for (const item of items) {
+      if (item.type === 'silence') {
+        if (item.seconds <= 0) continue;
+        timelineParts.push({ type: 'silence', seconds: item.seconds });
+        timelineCursor += item.seconds;
+      } else if (item.type === 'direction') {
+        segments.push({ start: timelineCursor, end: timelineCursor, text: '', transcriptText: item.text });
+      } else {
+        const sound = await loadSoundEffect(item.file, item.volume);
+        timelineParts.push({ type: 'wav', buffer: sound });
+        timelineCursor += parseWavHeader(sound).duration;
+      }
     }
+  };
 
-    const textChunks = splitText(text);
+  for (let index = 0; index < lineInfos.length; index++) {
+    const info = lineInfos[index];
+    const line = synthesisLines[index];
 
-    console.log(`Splitted text into ${textChunks.length} chunks.`);
-    console.log('Generating audio chunks in parallel...');
-    console.time('Voice generation time');
-
-    // Create progress bar
-    const progressBar = new cliProgress.SingleBar({
-      format: 'Progress |{bar}| {percentage}% | {value}/{total} chunks completed',
-      barCompleteChar: '\u2588',
-      barIncompleteChar: '\u2591',
-      hideCursor: true,
+    // Each chapter starts at the offset of the line that follows its directive
+    if (line.chapter !== undefined) {
+      chapterStarts.push({ title: line.chapter, start: timelineCursor });
+    }
+
+    await placeItems(line.before);
+
+    timelineParts.push({
+      type: 'file',
+      path: lineFilePaths[index],
+      info,
+      gainDb: speakerGains.size > 1 ? speakerGains.get(line.voice.characterId) : undefined,
     });
-    progressBar.start(textChunks.length, 0);
-
-    let completedCount = 0;
-
-    // Generate all audio chunks in parallel
-    const audioPromises = textChunks.map((chunk, index) => {
-      return generateVoice({
-        text: chunk,
-        characterId: characterId,
-        pitch: pitch,
-        intonationScale: intonationScale,
-        speed: speed,
-      }).then((audioBuffer) => {
-        completedCount++;
-        progressBar.update(completedCount);
-        return { index, audioBuffer };
-      });
+    segments.push({
+      start: timelineCursor,
+      end: timelineCursor + info.duration,
+      text: line.displayText,
+      transcriptText: line.transcriptText !== line.displayText ? line.transcriptText : undefined,
+      characterId: line.voice.characterId,
     });
+    timelineCursor += info.duration;
 
-    // Wait for all chunks to complete and sort by original index to maintain order
-    const results = await Promise.all(audioPromises);
-    progressBar.stop();
-    audioBuffers = results
-      .sort((a, b) => a.index - b.index)
-      .map(result => result.audioBuffer);
+    await placeItems(line.after);
+  }
 
-    // Clear results array to help GC
-    results.length = 0;
+  // The BGM fades out after the last line instead of being cut off with it
+  if (resolvedBgmFilePath && bgmMix.fadeOut > 0) {
+    timelineParts.push({ type: 'silence', seconds: bgmMix.fadeOut });
+    timelineCursor += bgmMix.fadeOut;
+  }
 
-    console.timeEnd('Voice generation time');
+  const voiceDuration = timelineCursor;
+  const chapters: Chapter[] = buildChapters(chapterStarts, voiceDuration);
+
+  // The speaker names fill in the artist tag and label subtitles
+  let speakerNames: Map<number, string> | undefined;
+  if ((outputFormat !== 'wav' && !tags.artist) || subtitlesFile || transcriptFile) {
+    try {
+      speakerNames = await getSpeakerNames(engine);
+    } catch (error) {
+      console.warn(`Warning: Could not resolve speaker names, using character IDs instead: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (speakerNames && !tags.artist) {
+    tags.artist = formatSpeakerList(segments.map(segment => speakerNames?.get(segment.characterId as number)));
   }
 
-  console.log('Concatenating audio chunks...');
+  // Temporary files next to the output, removed even when ffmpeg fails
+  const tempFiles: string[] = [];
+  try {
+    // Chapter markers are embedded by ffmpeg from an FFMETADATA file (MP3 and M4A only)
+    let chapterMetadataPath: string | undefined;
+    if (chapters.length > 0 && supportsChapters(outputFormat)) {
+      chapterMetadataPath = path.join(path.dirname(resolvedOutputFilePath), `temp_chapters_${Date.now()}.txt`);
+      tempFiles.push(chapterMetadataPath);
+      await fsPromises.writeFile(chapterMetadataPath, createFfmetadata(chapters), 'utf-8');
+    }
 
-  // Combine all audio buffers into a single buffer
-  const finalAudioBuffer = await combineAudioBuffers(audioBuffers);
+    /**
+     * Final encode: chapters, cover art, tags and encoder settings, with optional loudness correction.
+     * Resolves with ffmpeg's stderr, which contains the loudnorm summary.
+     */
+    const encode = (
+      addAudioInput: (command: FfmpegCommand) => void,
+      loudnessFilters: string[],
+      outputSampleRate: number,
+      outputChannels: number
+    ): Promise<string> => {
+      console.log(`Encoding ${describeEncoderSettings({ ...encoder, sampleRate: outputSampleRate, channels: outputChannels })}...`);
+      return new Promise<string>((resolve, reject) => {
+        const command = ffmpeg();
+        addAudioInput(command);
+        command.outputOptions(['-map', '0:a']);
+        if (loudnessFilters.length > 0) {
+          command.audioFilters(loudnessFilters);
+        }
+        let nextInputIndex = 1;
+        if (chapterMetadataPath) {
+          // Copy the chapters from the metadata file into the output
+          command
+            .input(chapterMetadataPath)
+            .outputOptions([
+              '-map_metadata', String(nextInputIndex),
+              '-map_chapters', String(nextInputIndex),
+            ]);
+          nextInputIndex++;
+        }
+        if (coverFile && supportsCoverArt(outputFormat)) {
+          command.input(coverFile).outputOptions(createCoverArtOutputOptions(nextInputIndex++));
+        }
+        if (supportsTags(outputFormat)) {
+          command.outputOptions(createTagOutputOptions(tags));
+        }
+        command
+          .outputOptions(getEncoderOutputOptions(encoder))
+          .audioChannels(outputChannels)
+          .audioFrequency(outputSampleRate)
+          .on('end', (_stdout: string, stderr: string) => {
+            resolve(stderr);
+          })
+          .on('error', (err: Error) => {
+            reject(new Error(`Encoding to ${outputFormat} failed: ${err.message}. Make sure FFmpeg is installed on your system.`));
+          })
+          .save(resolvedOutputFilePath);
+      });
+    };
+
+    const voiceSampleRate = encoder.sampleRate ?? wavFormat.sampleRate;
+    const voiceChannels = encoder.channels ?? wavFormat.channels;
+    const voiceNeedsEncode = outputFormat !== 'wav' || voiceSampleRate !== wavFormat.sampleRate || voiceChannels !== wavFormat.channels;
+
+    if (!resolvedBgmFilePath && !loudnessTarget && voiceNeedsEncode) {
+      // Nothing needs a second pass over the voice track, so its PCM is piped straight into the encoder
+      const pcmInput = new PassThrough();
+      const encodePromise = encode(
+        command => command
+          .input(pcmInput)
+          .inputFormat(`s${wavFormat.bitDepth}le`)
+          .inputOptions(['-ar', String(wavFormat.sampleRate), '-ac', String(wavFormat.channels)]),
+        [],
+        voiceSampleRate,
+        voiceChannels
+      );
+      // Stop feeding the encoder if it fails, and stop the encoder (fluent-ffmpeg kills it on an input error) if feeding fails
+      encodePromise.catch(error => pcmInput.destroy(error));
+      const writePromise = writeAudioParts(createStreamSink(pcmInput), wavFormat, timelineParts).then(
+        () => {
+          pcmInput.end();
+        },
+        (error) => {
+          pcmInput.destroy(error);
+          throw error;
+        }
+      );
+      await Promise.all([encodePromise, writePromise]);
+    } else {
+      // Write the voice track to disk
+      const tempFilePath = path.join(path.dirname(resolvedOutputFilePath), `temp_${Date.now()}.wav`);
+      tempFiles.push(tempFilePath);
+      const voiceWriter = await createWavFileWriter(tempFilePath, wavFormat);
+      try {
+        await writeAudioParts(voiceWriter, wavFormat, timelineParts);
+      } finally {
+        await voiceWriter.close();
+      }
 
-  // Clear audioBuffers to help GC
-  audioBuffers.length = 0;
+      // The file that is encoded into the output: the voice track, or the voice mixed with BGM
+      let mixFilePath = tempFilePath;
+      let mixFormat: MixFormat = { sampleRate: wavFormat.sampleRate, channels: wavFormat.channels };
 
-  // Write combined audio to file
-  const tempFilePath = path.join(path.dirname(resolvedOutputFilePath), `temp_${Date.now()}.wav`);
-  await fsPromises.writeFile(tempFilePath, finalAudioBuffer);
+      // BGM合成処理（バリデーションは既に完了している）
+      if (resolvedBgmFilePath) {
+        console.log(`Adding BGM: ${path.basename(resolvedBgmFilePath)} (volume: ${bgmVolume})...`);
 
-  // BGM合成処理（バリデーションは既に完了している）
-  if (resolvedBgmFilePath) {
-    console.log(`Adding BGM: ${path.basename(resolvedBgmFilePath)} (volume: ${bgmVolume})...`);
+        const bgmDuration = await getAudioDuration(resolvedBgmFilePath);
 
-    // Get voice and BGM duration
-    const voiceDuration = await getAudioDuration(tempFilePath);
-    const bgmDuration = await getAudioDuration(resolvedBgmFilePath);
+        // Mix into a WAV first so that loudness is measured on exactly what gets encoded
+        const tempMixPath = path.join(path.dirname(resolvedOutputFilePath), `temp_bgm_${Date.now()}.wav`);
+        tempFiles.push(tempMixPath);
 
-    // Check if output should be MP3 based on file extension
-    const outputExt = path.extname(resolvedOutputFilePath).toLowerCase();
-    const isMp3Output = outputExt === '.mp3';
+        // Loop the BGM as often as needed to cover the voice, crossfading the seams
+        const crossfade = getEffectiveCrossfade(bgmDuration, bgmMix.crossfade);
+        const loopCount = getBgmLoopCount(bgmDuration, voiceDuration, crossfade);
+        const bgmMixFormat: MixFormat = { sampleRate: encoder.sampleRate ?? 44100, channels: encoder.channels ?? 2 };
 
-    // Create temporary output file for BGM mixing
-    const tempOutputPath = path.join(
-      path.dirname(resolvedOutputFilePath),
-      `temp_bgm_${Date.now()}.${isMp3Output ? 'mp3' : 'wav'}`
-    );
+        // Mix BGM with voice using FFmpeg
+        await new Promise<void>((resolve, reject) => {
+          const command = ffmpeg().input(tempFilePath);
 
-    // Mix BGM with voice using FFmpeg
-    await new Promise<void>((resolve, reject) => {
-      let command: any;
+          // BGM inputs start from index 1
+          for (let i = 0; i < loopCount; i++) {
+            command.input(resolvedBgmFilePath);
+          }
 
-      // If BGM is shorter than voice, we need to loop it using concat filter
-      if (bgmDuration < voiceDuration) {
-        // Calculate how many times we need to loop BGM
-        const loopCount = Math.ceil(voiceDuration / bgmDuration);
+          command
+            .complexFilter(createBgmFilterGraph(loopCount, voiceDuration, crossfade, bgmMix, bgmMixFormat))
+            .outputOptions(['-map', '[out]'])
+            .audioChannels(bgmMixFormat.channels)
+            .audioFrequency(bgmMixFormat.sampleRate)
+            .format('wav')
+            .on('end', () => {
+              resolve();
+            })
+            .on('error', (err: Error) => {
+              reject(
+                new Error(
+                  `BGM mixing failed: ${err.message}. Make sure FFmpeg is installed on your system.`
+                )
+              );
+            })
+            .save(tempMixPath);
+        });
 
-        // Create command with multiple inputs for BGM looping
-        command = ffmpeg()
-          .input(tempFilePath);
+        // Delete temporary WAV file
+        await fsPromises.unlink(tempFilePath);
+        mixFilePath = tempMixPath;
+        mixFormat = bgmMixFormat;
+      }
 
-        // Add BGM file multiple times for looping
-        for (let i = 0; i < loopCount; i++) {
-          command = command.input(resolvedBgmFilePath);
-        }
+      // Unset encoder settings keep the format of the mix (WAV and FLAC)
+      const outputSampleRate = encoder.sampleRate ?? mixFormat.sampleRate;
+      const outputChannels = encoder.channels ?? mixFormat.channels;
+
+      // Two-pass loudness normalization: measure the mix, then correct it with the measured values
+      let loudnessMeasurement: LoudnessMeasurement | undefined;
+      let loudnessFilters: string[] = [];
+      if (loudnessTarget) {
+        console.log(`Measuring loudness (target: ${loudnessTarget.integrated} LUFS, true peak: ${loudnessTarget.truePeak} dBTP)...`);
+        loudnessMeasurement = await measureLoudness(mixFilePath, loudnessTarget, outputChannels);
+        loudnessFilters = createLoudnormFilters(loudnessTarget, loudnessMeasurement, outputChannels);
+      }
+
+      // A WAV mix that already has the requested format is used as it is
+      const needsEncode = outputFormat !== 'wav'
+        || loudnessFilters.length > 0
+        || outputSampleRate !== mixFormat.sampleRate
+        || outputChannels !== mixFormat.channels;
+
+      if (needsEncode) {
+        const encodeLog = await encode(command => command.input(mixFilePath), loudnessFilters, outputSampleRate, outputChannels);
 
-        // Create concat filter inputs (BGM inputs start from index 1)
-        const concatInputs: string[] = [];
-        for (let i = 0; i < loopCount; i++) {
-          concatInputs.push(`[${i + 1}:a]`);
+        if (loudnessMeasurement) {
+          const input = loudnessMeasurement;
+          console.log(`Loudness before normalization: ${input.integrated} LUFS integrated, LRA ${input.range} LU, true peak ${input.truePeak} dBTP`);
+          try {
+            const output = parseLoudnormOutput(encodeLog, 'output');
+            console.log(`Loudness after normalization: ${output.integrated} LUFS integrated, LRA ${output.range} LU, true peak ${output.truePeak} dBTP`);
+          } catch (error) {
+            console.warn(`Warning: Could not read the normalized loudness: ${error instanceof Error ? error.message : String(error)}`);
+          }
         }
-        const concatFilter = `${concatInputs.join('')}concat=n=${loopCount}:v=0:a=1[bg_loop]`;
-
-        command = command.complexFilter([
-          concatFilter,
-          `[bg_loop]volume=${bgmVolume}[bg]`,
-          `[0:a][bg]amix=inputs=2:duration=first:dropout_transition=2[out]`,
-        ])
-          .outputOptions(['-map', '[out]']);
       } else {
-        // BGM is longer than voice, just use it as is
-        command = ffmpeg()
-          .input(tempFilePath)
-          .input(resolvedBgmFilePath)
-          .complexFilter([
-            `[1:a]volume=${bgmVolume}[bg]`,
-            `[0:a][bg]amix=inputs=2:duration=first:dropout_transition=2[out]`,
-          ])
-          .outputOptions(['-map', '[out]']);
+        // Keep as WAV
+        await fsPromises.rename(mixFilePath, resolvedOutputFilePath);
       }
+    }
+  } finally {
+    await Promise.all(tempFiles.map(file => fsPromises.rm(file, { force: true })));
+  }
 
-      if (isMp3Output) {
-        command
-          .audioCodec('libmp3lame')
-          .audioBitrate(128)
-          .audioChannels(2)
-          .audioFrequency(44100)
-          .format('mp3');
-      } else {
-        command
-          .audioChannels(2)
-          .audioFrequency(44100)
-          .format('wav');
-      }
+  console.log(`Successfully saved audio${resolvedBgmFilePath ? ' with BGM' : ''} to: ${resolvedOutputFilePath}`);
 
-      command
-        .on('end', () => {
-          resolve();
-        })
-        .on('error', (err: Error) => {
-          reject(
-            new Error(
-              `BGM mixing failed: ${err.message}. Make sure FFmpeg is installed on your system.`
-            )
-          );
-        })
-        .save(tempOutputPath);
+  if (chapters.length > 0) {
+    const sidecarPath = await writeChaptersSidecar(resolvedOutputFilePath, chapters);
+    console.log(`Saved ${chapters.length} chapters to: ${sidecarPath}`);
+  }
+
+  if (subtitlesFile || transcriptFile) {
+    segments.forEach(segment => {
+      segment.speaker = speakerNames?.get(segment.characterId as number);
     });
 
-    // Move temp output to final output
-    await fsPromises.rename(tempOutputPath, resolvedOutputFilePath);
+    if (subtitlesFile) {
+      const resolvedSubtitlesFile = path.resolve(subtitlesFile);
+      await writeSubtitles(resolvedSubtitlesFile, segments, { maxCueLength, includeSpeaker: subtitleSpeakers });
+      console.log(`Successfully saved subtitles to: ${resolvedSubtitlesFile}`);
+    }
+    if (transcriptFile) {
+      const resolvedTranscriptFile = path.resolve(transcriptFile);
+      await writeTranscript(resolvedTranscriptFile, segments);
+      console.log(`Successfully saved transcript to: ${resolvedTranscriptFile}`);
+    }
+  }
+
+  // The output is complete; the per-line files are no longer needed for resuming
+  await job.remove();
+}
+
+const engineOptions = {
+  engine: {
+    type: 'string',
+    description: 'TTS engine to synthesize with. voicevox uses the managed Docker container; aivisspeech and compatible talk to an already running VOICEVOX-API-compatible server; stub generates silence offline.',
+    choices: ENGINE_NAMES,
+    default: 'voicevox',
+  },
+  'engine-url': {
+    type: 'string',
+    description: 'Base URL of the engine API (e.g. http://127.0.0.1:10101). Overrides the default URL of the selected engine.',
+  },
+} as const;
+
+const prosodyOptions = {
+  'volume-scale': {
+    type: 'number',
+    description: 'Volume of the voice. Default: 1.',
+  },
+  'pre-phoneme-length': {
+    type: 'number',
+    description: 'Silence in seconds the engine adds before every line. Default: the engine default (0.1).',
+  },
+  'post-phoneme-length': {
+    type: 'number',
+    description: 'Silence in seconds the engine adds after every line. Default: the engine default (0.1).',
+  },
+  'pause-length-scale': {
+    type: 'number',
+    description: 'Scale of the pauses at punctuation (e.g. 0.5 halves them). Default: 1. Ignored by older engines.',
+  },
+  'output-sampling-rate': {
+    type: 'number',
+    description: 'Sampling rate in Hz the engine synthesizes at (e.g. 48000). Default: the engine default (24000 for VOICEVOX). Use --sample-rate to resample only the encoded output.',
+  },
+  'output-stereo': {
+    type: 'boolean',
+    description: 'Have the engine synthesize in stereo.',
+  },
+} as const;
+
+const synthesisOptions = {
+  concurrency: {
+    type: 'number',
+    description: 'Maximum number of text chunks synthesized at the same time. Lower it if the engine runs out of memory.',
+    default: 4,
+  },
+  retries: {
+    type: 'number',
+    description: 'Number of retries per chunk when the engine returns a 5xx error or drops the connection.',
+    default: 3,
+  },
+  'max-chunk-length': {
+    type: 'number',
+    description: 'Maximum number of characters sent to the engine at a time. Longer text is split at sentence ends, then clauses, then words.',
+    default: DEFAULT_MAX_CHUNK_LENGTH,
+  },
+  cache: {
+    type: 'boolean',
+    description: 'Reuse previously synthesized chunks from the cache. Use --no-cache to synthesize everything again.',
+    default: true,
+  },
+  'cache-dir': {
+    type: 'string',
+    description: 'Directory of the synthesis cache.',
+    default: DEFAULT_CACHE_DIR,
+  },
+  resume: {
+    type: 'boolean',
+    description: 'Resume an interrupted run: reuse the lines saved in the job directory and synthesize only the missing ones.',
+    default: false,
+  },
+} as const;
+
+const encoderOptions = {
+  format: {
+    type: 'string',
+    description: 'Output format. Defaults to the extension of the output file (generate) or mp3 (batch-generate).',
+    choices: OUTPUT_FORMATS,
+  },
+  bitrate: {
+    type: 'number',
+    description: 'Bitrate in kbps for mp3, m4a and opus. Default: 128 (mp3, m4a), 64 (opus).',
+  },
+  vbr: {
+    type: 'number',
+    description: 'Encode MP3 with a variable bitrate of this LAME quality, from 0 (best) to 9. Replaces --bitrate.',
+  },
+  'sample-rate': {
+    type: 'number',
+    description: 'Sample rate in Hz. Default: 44100 (mp3, m4a), 48000 (opus); wav and flac keep the rate of the mix.',
+  },
+  channels: {
+    type: 'number',
+    description: 'Number of output channels: 1 (mono) or 2 (stereo). Default: 2 for lossy formats; wav and flac keep the channels of the mix.',
+    choices: [1, 2],
+  },
+} as const;
+
+const tagOptions = {
+  artist: {
+    type: 'string',
+    description: 'Artist tag. Defaults to the front-matter "artist", then to the names of the speakers in the script.',
+  },
+  album: {
+    type: 'string',
+    description: 'Album tag (e.g., the name of the show). Defaults to the front-matter "album".',
+  },
+  comment: {
+    type: 'string',
+    description: 'Comment tag. Defaults to the front-matter "comment".',
+  },
+  cover: {
+    type: 'string',
+    description: 'Cover art image (JPEG or PNG) embedded in MP3, M4A and FLAC output. Defaults to the front-matter "cover".',
+  },
+} as const;
+
+const dictionaryOptions = {
+  dictionary: {
+    type: 'string',
+    description: `User dictionary file synced into the engine before synthesis. Default: ${DEFAULT_DICTIONARY_FILE} in the current directory, if it exists.`,
+  },
+} as const;
+
+const normalizationOptions = {
+  normalize: {
+    type: 'string',
+    description: `Rewrite the text before synthesis: all, default, none or a comma-separated list of ${NORMALIZATION_RULES.join(', ')}. Defaults to the front-matter "normalize", otherwise ${DEFAULT_NORMALIZATION_RULES.join(',')}.`,
+  },
+  'url-replacement': {
+    type: 'string',
+    description: 'Word read in place of URLs. An empty string removes them.',
+    default: DEFAULT_URL_REPLACEMENT,
+  },
+  'english-table': {
+    type: 'string',
+    description: `JSON file of English word -> katakana reading that extends the built-in table. Default: ${DEFAULT_ENGLISH_TABLE_FILE} in the current directory, if it exists.`,
+  },
+} as const;
+
+const bgmOptions = {
+  'bgm-fade-in': {
+    type: 'number',
+    description: 'BGM fade-in duration in seconds.',
+    default: DEFAULT_BGM_FADE_IN,
+  },
+  'bgm-fade-out': {
+    type: 'number',
+    description: 'BGM fade-out duration in seconds. The BGM keeps playing this long after the last line while it fades out.',
+    default: DEFAULT_BGM_FADE_OUT,
+  },
+  'bgm-crossfade': {
+    type: 'number',
+    description: 'Crossfade duration in seconds between BGM loops when the BGM is shorter than the voice. 0 joins the loops end to end.',
+    default: DEFAULT_BGM_CROSSFADE,
+  },
+  'bgm-intro': {
+    type: 'number',
+    description: 'Seconds of BGM played alone before the first line.',
+    default: 0,
+  },
+  'bgm-ducking': {
+    type: 'boolean',
+    description: 'Lower the BGM while someone is speaking and bring it back up in the gaps (sidechain compression keyed by the voice).',
+    default: false,
+  },
+} as const;
+
+const loudnessOptions = {
+  loudness: {
+    type: 'number',
+    description: 'Normalize the final mix to this integrated loudness in LUFS with a two-pass loudnorm (e.g. -16 for podcasts). Off by default.',
+  },
+  'true-peak': {
+    type: 'number',
+    description: 'Maximum true peak in dBTP when normalizing loudness.',
+    default: DEFAULT_TRUE_PEAK,
+  },
+  'match-speaker-levels': {
+    type: 'boolean',
+    description: 'Match the level of every speaker before the lines are joined, so that no character is noticeably louder than the others.',
+    default: false,
+  },
+} as const;
+
+/**
+ * Create the engine selected on the command line and make sure it is reachable.
+ * The managed VOICEVOX container is created/started as needed.
+ */
+async function prepareEngine(argv: { engine?: string; engineUrl?: string }): Promise<TtsEngine> {
+  const engine = createEngine((argv.engine ?? 'voicevox') as EngineName, { baseUrl: argv.engineUrl });
 
-    // Delete temporary WAV file
-    await fsPromises.unlink(tempFilePath);
-    console.log(`Successfully saved audio with BGM to: ${resolvedOutputFilePath}`);
+  if (engine.capabilities.dockerManaged) {
+    await prepareAndStartEngine();
   } else {
-    // No BGM: use existing logic
-    // Check if output should be MP3 based on file extension
-    const outputExt = path.extname(resolvedOutputFilePath).toLowerCase();
-    const isMp3Output = outputExt === '.mp3';
-
-    if (isMp3Output) {
-      // Convert WAV to MP3
-      console.log('Converting WAV to MP3...');
-      const mp3FilePath = resolvedOutputFilePath;
-      const wavFilePath = tempFilePath;
-
-      await new Promise<void>((resolve, reject) => {
-        ffmpeg(wavFilePath)
-          .audioCodec('libmp3lame')
-          .audioBitrate(128)
-          .audioChannels(2)
-          .audioFrequency(44100)
-          .format('mp3')
-          .on('end', () => {
-            resolve();
-          })
-          .on('error', (err: Error) => {
-            reject(new Error(`MP3 conversion failed: ${err.message}. Make sure FFmpeg is installed on your system.`));
-          })
-          .save(mp3FilePath);
-      });
+    const version = await engine.getVersion();
+    console.log(`Using engine '${engine.name}'${engine.baseUrl ? ` at ${engine.baseUrl}` : ''} (version ${version}).`);
+  }
 
-      // Delete temporary WAV file
-      await fsPromises.unlink(wavFilePath);
-      console.log(`Successfully saved audio to: ${mp3FilePath}`);
-    } else {
-      // Keep as WAV
-      await fsPromises.rename(tempFilePath, resolvedOutputFilePath);
-      console.log(`Successfully saved audio to: ${resolvedOutputFilePath}`);
-    }
+  return engine;
+}
+
+/**
+ * Sync the project's dictionary file into the engine. Without --dictionary, dictionary.json in the
+ * current directory is used if it exists.
+ */
+async function syncDictionaryFile(engine: TtsEngine, dictionaryFile: string | undefined): Promise<void> {
+  const filePath = path.resolve(dictionaryFile ?? DEFAULT_DICTIONARY_FILE);
+  if (dictionaryFile === undefined && !fs.existsSync(filePath)) return;
+
+  if (!engine.capabilities.userDictionary || !engine.baseUrl) {
+    console.warn(`Warning: The '${engine.name}' engine has no user dictionary; ${filePath} was not applied.`);
+    return;
   }
+  const words = await loadDictionaryFile(filePath);
+  const result = await syncUserDictionary(engine.baseUrl, words);
+  console.log(`Dictionary ${path.basename(filePath)}: ${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged.`);
+}
+
+/**
+ * Base URL of an engine whose user dictionary can be edited
+ */
+function getDictionaryBaseUrl(engine: TtsEngine): string {
+  if (!engine.capabilities.userDictionary || !engine.baseUrl) {
+    throw new Error(`The '${engine.name}' engine does not support a user dictionary.`);
+  }
+  return engine.baseUrl;
+}
+
+/**
+ * Base URL of an engine that can blend styles
+ */
+function getMorphingBaseUrl(engine: TtsEngine): string {
+  if (!engine.capabilities.morphing || !engine.baseUrl) {
+    throw new Error(`The '${engine.name}' engine does not support morphing (morph=).`);
+  }
+  return engine.baseUrl;
+}
+
+/**
+ * Check that every morphed line can be blended with its target, in every style it is spoken in
+ */
+async function checkMorphing(engine: TtsEngine, lines: SynthesisLine[]): Promise<void> {
+  const baseUrl = getMorphingBaseUrl(engine);
+  const pairs = lines.flatMap(line => {
+    const { morph } = line.voice;
+    if (!morph) return [];
+    const characterIds = line.styleParts?.map(part => part.characterId) ?? [line.voice.characterId];
+    return [...new Set(characterIds)].map(characterId => ({ label: line.label, characterId, targetId: morph.targetId }));
+  });
+
+  const morphableTargets = await getMorphableTargets([...new Set(pairs.map(pair => pair.characterId))], baseUrl);
+  const errors = pairs
+    .filter(pair => !morphableTargets.get(pair.characterId)?.includes(pair.targetId))
+    .map(pair => `${pair.label}: style ${pair.characterId} cannot be morphed with style ${pair.targetId}`);
+  if (errors.length > 0) {
+    throw new Error(`Morphing is not possible:\n${errors.map(e => `  - ${e}`).join('\n')}\nRun list-characters --morphable to see which styles can be blended.`);
+  }
+}
+
+/**
+ * Normalization settings from the command line. Without --english-table, english-readings.json in
+ * the current directory is used if it exists.
+ */
+async function getNormalizeOptions(argv: { normalize?: string; urlReplacement?: string; englishTable?: string }): Promise<Partial<NormalizeOptions>> {
+  const tableFile = path.resolve(argv.englishTable ?? DEFAULT_ENGLISH_TABLE_FILE);
+  const hasTable = argv.englishTable !== undefined || fs.existsSync(tableFile);
+  return {
+    rules: argv.normalize !== undefined ? parseNormalizationRules(argv.normalize) : undefined,
+    urlReplacement: argv.urlReplacement,
+    englishTable: createEnglishTable(hasTable ? await loadEnglishTable(tableFile) : {}),
+  };
+}
+
+function validateSynthesisOptions(argv: { concurrency: number; retries: number; maxChunkLength: number }): void {
+  if (!Number.isInteger(argv.concurrency) || argv.concurrency < 1) {
+    throw new Error(`--concurrency must be a positive integer (got ${argv.concurrency}).`);
+  }
+  if (!Number.isInteger(argv.retries) || argv.retries < 0) {
+    throw new Error(`--retries must be a non-negative integer (got ${argv.retries}).`);
+  }
+  if (!Number.isInteger(argv.maxChunkLength) || argv.maxChunkLength < 1) {
+    throw new Error(`--max-chunk-length must be a positive integer (got ${argv.maxChunkLength}).`);
+  }
+}
+
+function getEncoderOptions(argv: { bitrate?: number; vbr?: number; sampleRate?: number; channels?: number }): EncoderOptions {
+  return {
+    bitrate: argv.bitrate,
+    vbr: argv.vbr,
+    sampleRate: argv.sampleRate,
+    channels: argv.channels,
+  };
 }
 
 async function main() {
@@ -531,30 +1445,27 @@ async function main() {
           .option('output-file', {
             alias: 'o',
             type: 'string',
-            description: 'Path to save the output audio file (e.g., output.mp3 or output.wav). If .mp3 extension is used, the file will be converted to MP3 format.',
-            demandOption: true,
+            description: 'Path to save the output audio file (e.g., output.mp3, output.m4a, output.opus, output.flac or output.wav). The extension selects the format unless --format is given. Required unless --show-normalized is set.',
           })
           .option('character-id', {
             alias: 'c',
             type: 'number',
-            description: 'The ID of the character (speaker). Required for single-speaker mode, optional for dialogue mode (used as default).',
+            description: 'The ID of the character (speaker). Required for single-speaker mode unless the front-matter sets "speaker"; optional for dialogue mode (used as default).',
             demandOption: false,
           })
           .option('pitch', {
             type: 'number',
-            description: 'Pitch of the voice.',
-            default: 0,
+            description: 'Pitch of the voice. Default: 0.',
           })
           .option('intonation-scale', {
             type: 'number',
-            description: 'Intonation scale of the voice.',
-            default: 1,
+            description: 'Intonation scale of the voice. Default: 1.',
           })
           .option('speed', {
             type: 'number',
-            description: 'Speed of the voice.',
-            default: 1,
+            description: 'Speed of the voice. Default: 1.',
           })
+          .options(prosodyOptions)
           .option('bgm', {
             alias: 'b',
             type: 'string',
@@ -564,22 +1475,137 @@ async function main() {
           .option('bgm-volume', {
             type: 'number',
             description: 'BGM volume ratio relative to voice (0.0 to 1.0). Default is 0.05 (5% of voice volume).',
-            default: 0.05,
-          });
+          })
+          .option('line-gap', {
+            type: 'number',
+            description: 'Silence in seconds between consecutive dialogue lines. Default: 0.',
+          })
+          .option('speaker-change-gap', {
+            type: 'number',
+            description: 'Silence in seconds between lines of different speakers. Defaults to --line-gap.',
+          })
+          .option('subtitles', {
+            type: 'string',
+            description: 'Also write subtitles with timings taken from the generated audio. The format follows the extension (.srt or .vtt).',
+          })
+          .option('subtitle-speakers', {
+            type: 'boolean',
+            description: 'Prefix each subtitle cue with the speaker name.',
+            default: false,
+          })
+          .option('max-cue-length', {
+            type: 'number',
+            description: 'Maximum number of characters per subtitle cue. Longer lines are split into several cues.',
+            default: 40,
+          })
+          .option('transcript', {
+            type: 'string',
+            description: 'Also write a timestamped transcript. The format follows the extension (.txt or .json).',
+          })
+          .option('strict', {
+            type: 'boolean',
+            description: 'Fail before synthesis if the script has any warnings (malformed lines, unknown parameters, out-of-range values).',
+            default: false,
+          })
+          .option('job-dir', {
+            type: 'string',
+            description: 'Directory for the job manifest and per-line WAV files used by --resume. Defaults to .<output name>.job next to the output file.',
+          })
+          .option('intro', {
+            type: 'string',
+            description: 'Jingle played before the first line (any format FFmpeg can decode).',
+          })
+          .option('outro', {
+            type: 'string',
+            description: 'Jingle played after the last line.',
+          })
+          .option('title', {
+            type: 'string',
+            description: 'Title tag. Defaults to the front-matter "title".',
+          })
+          .option('episode', {
+            type: 'string',
+            description: 'Episode number, written as the track number tag. Defaults to the front-matter "episode".',
+          })
+          .option('show-normalized', {
+            type: 'boolean',
+            description: 'Print the text that will actually be spoken for each line after normalization, and exit without synthesizing.',
+            default: false,
+          })
+          .options(tagOptions)
+          .options(encoderOptions)
+          .options(bgmOptions)
+          .options(loudnessOptions)
+          .options(normalizationOptions)
+          .options(dictionaryOptions)
+          .options(engineOptions)
+          .options(synthesisOptions);
       },
       async (argv) => {
         try {
-          await prepareAndStartEngine();
+          validateSynthesisOptions(argv);
+          const normalize = await getNormalizeOptions(argv);
+          if (argv.showNormalized) {
+            await showNormalizedText(argv.textFile as string, normalize, argv.maxChunkLength);
+            return;
+          }
+          if (argv.outputFile === undefined) {
+            throw new Error('Missing required argument: output-file');
+          }
+
+          const engine = await prepareEngine(argv);
+          await syncDictionaryFile(engine, argv.dictionary);
 
           await generateAudio({
+            engine,
             textFilePath: argv.textFile as string,
             outputFilePath: argv.outputFile as string,
             characterId: argv.characterId as number | undefined,
-            pitch: argv.pitch as number,
-            intonationScale: argv.intonationScale as number,
-            speed: argv.speed as number,
+            pitch: argv.pitch as number | undefined,
+            intonationScale: argv.intonationScale as number | undefined,
+            speed: argv.speed as number | undefined,
+            volumeScale: argv.volumeScale,
+            prePhonemeLength: argv.prePhonemeLength,
+            postPhonemeLength: argv.postPhonemeLength,
+            pauseLengthScale: argv.pauseLengthScale,
+            outputSamplingRate: argv.outputSamplingRate,
+            outputStereo: argv.outputStereo,
             bgmFile: argv.bgm as string | undefined,
-            bgmVolume: argv.bgmVolume as number,
+            bgmVolume: argv.bgmVolume as number | undefined,
+            concurrency: argv.concurrency,
+            maxChunkLength: argv.maxChunkLength,
+            retries: argv.retries,
+            cacheDir: argv.cache ? argv.cacheDir : undefined,
+            jobDir: argv.jobDir as string | undefined,
+            resume: argv.resume,
+            subtitlesFile: argv.subtitles as string | undefined,
+            transcriptFile: argv.transcript as string | undefined,
+            subtitleSpeakers: argv.subtitleSpeakers as boolean,
+            maxCueLength: argv.maxCueLength as number,
+            lineGap: argv.lineGap as number | undefined,
+            speakerChangeGap: argv.speakerChangeGap as number | undefined,
+            strict: argv.strict as boolean,
+            format: argv.format as OutputFormat | undefined,
+            encoder: getEncoderOptions(argv),
+            tags: {
+              title: argv.title,
+              artist: argv.artist,
+              album: argv.album,
+              episode: argv.episode,
+              comment: argv.comment,
+            },
+            coverFile: argv.cover,
+            introFile: argv.intro as string | undefined,
+            outroFile: argv.outro as string | undefined,
+            bgmFadeIn: argv.bgmFadeIn,
+            bgmFadeOut: argv.bgmFadeOut,
+            bgmCrossfade: argv.bgmCrossfade,
+            bgmIntro: argv.bgmIntro,
+            bgmDucking: argv.bgmDucking,
+            loudness: argv.loudness as number | undefined,
+            truePeak: argv.truePeak,
+            matchSpeakerLevels: argv.matchSpeakerLevels,
+            normalize,
           });
 
         } catch (error) {
@@ -607,24 +1633,22 @@ async function main() {
           .option('character-id', {
             alias: 'c',
             type: 'number',
-            description: 'The ID of the character (speaker). Required for single-speaker mode, optional for dialogue mode (used as default).',
+            description: 'The ID of the character (speaker). Required for single-speaker mode unless the front-matter sets "speaker"; optional for dialogue mode (used as default).',
             demandOption: false,
           })
           .option('pitch', {
             type: 'number',
-            description: 'Pitch of the voice.',
-            default: 0,
+            description: 'Pitch of the voice. Default: 0.',
           })
           .option('intonation-scale', {
             type: 'number',
-            description: 'Intonation scale of the voice.',
-            default: 1,
+            description: 'Intonation scale of the voice. Default: 1.',
           })
           .option('speed', {
             type: 'number',
-            description: 'Speed of the voice.',
-            default: 1,
+            description: 'Speed of the voice. Default: 1.',
           })
+          .options(prosodyOptions)
           .option('bgm', {
             alias: 'b',
             type: 'string',
@@ -634,12 +1658,43 @@ async function main() {
           .option('bgm-volume', {
             type: 'number',
             description: 'BGM volume ratio relative to voice (0.0 to 1.0). Default is 0.05 (5% of voice volume).',
-            default: 0.05,
-          });
+          })
+          .option('line-gap', {
+            type: 'number',
+            description: 'Silence in seconds between consecutive dialogue lines. Default: 0.',
+          })
+          .option('speaker-change-gap', {
+            type: 'number',
+            description: 'Silence in seconds between lines of different speakers. Defaults to --line-gap.',
+          })
+          .option('strict', {
+            type: 'boolean',
+            description: 'Skip files whose script has any warnings instead of synthesizing them.',
+            default: false,
+          })
+          .option('intro', {
+            type: 'string',
+            description: 'Jingle played before the first line (any format FFmpeg can decode).',
+          })
+          .option('outro', {
+            type: 'string',
+            description: 'Jingle played after the last line.',
+          })
+          .options(tagOptions)
+          .options(encoderOptions)
+          .options(bgmOptions)
+          .options(loudnessOptions)
+          .options(normalizationOptions)
+          .options(dictionaryOptions)
+          .options(engineOptions)
+          .options(synthesisOptions);
       },
       async (argv) => {
         try {
-          await prepareAndStartEngine();
+          validateSynthesisOptions(argv);
+          const normalize = await getNormalizeOptions(argv);
+          const engine = await prepareEngine(argv);
+          await syncDictionaryFile(engine, argv.dictionary);
 
           const dirName = argv.directory as string;
           const textsDir = path.resolve('texts', dirName);
@@ -682,16 +1737,27 @@ async function main() {
 
           console.log(`Found ${scriptFiles.length} script/txt files to process.`);
 
-          // Check which files already have corresponding MP3 files
+          // Check which files already have corresponding output files.
+          // The output format is --format, otherwise set per file in the front-matter (default: mp3).
           const filesToProcess: string[] = [];
           const filesToSkip: string[] = [];
+          const outputFormats = new Map<string, OutputFormat>();
 
           for (const file of scriptFiles) {
             const baseName = path.basename(file, path.extname(file));
-            const mp3Path = path.join(audioDir, `${baseName}.mp3`);
+            const content = await fsPromises.readFile(path.join(textsDir, file), 'utf-8');
+            const requestedFormat = (argv.format as string | undefined) ?? parseFrontMatter(content).frontMatter.format ?? 'mp3';
+            let format: OutputFormat = 'mp3';
+            if (isOutputFormat(requestedFormat)) {
+              format = requestedFormat;
+            } else {
+              console.warn(`Warning: ${file} requests unsupported format "${requestedFormat}"; writing mp3 instead.`);
+            }
+            outputFormats.set(file, format);
+            const outputPath = path.join(audioDir, `${baseName}.${format}`);
 
             try {
-              await fsPromises.access(mp3Path, fs.constants.F_OK);
+              await fsPromises.access(outputPath, fs.constants.F_OK);
               filesToSkip.push(file);
             } catch {
               filesToProcess.push(file);
@@ -717,7 +1783,7 @@ async function main() {
             const file = filesToProcess[i];
             const textFilePath = path.join(textsDir, file);
             const baseName = path.basename(file, path.extname(file));
-            const outputFilePath = path.join(audioDir, `${baseName}.mp3`);
+            const outputFilePath = path.join(audioDir, `${baseName}.${outputFormats.get(file)}`);
 
             console.log(`\n[${i + 1}/${filesToProcess.length}] Processing: ${file}`);
             console.log(`  Input: ${textFilePath}`);
@@ -725,14 +1791,49 @@ async function main() {
 
             try {
               await generateAudio({
+                engine,
                 textFilePath: textFilePath,
                 outputFilePath: outputFilePath,
                 characterId: argv.characterId as number | undefined,
-                pitch: argv.pitch as number,
-                intonationScale: argv.intonationScale as number,
-                speed: argv.speed as number,
+                pitch: argv.pitch as number | undefined,
+                intonationScale: argv.intonationScale as number | undefined,
+                speed: argv.speed as number | undefined,
+                volumeScale: argv.volumeScale,
+                prePhonemeLength: argv.prePhonemeLength,
+                postPhonemeLength: argv.postPhonemeLength,
+                pauseLengthScale: argv.pauseLengthScale,
+                outputSamplingRate: argv.outputSamplingRate,
+                outputStereo: argv.outputStereo,
                 bgmFile: argv.bgm as string | undefined,
-                bgmVolume: argv.bgmVolume as number,
+                bgmVolume: argv.bgmVolume as number | undefined,
+                concurrency: argv.concurrency,
+                maxChunkLength: argv.maxChunkLength,
+                retries: argv.retries,
+                cacheDir: argv.cache ? argv.cacheDir : undefined,
+                resume: argv.resume,
+                lineGap: argv.lineGap as number | undefined,
+                speakerChangeGap: argv.speakerChangeGap as number | undefined,
+                strict: argv.strict as boolean,
+                format: outputFormats.get(file),
+                encoder: getEncoderOptions(argv),
+                // Titles and episode numbers come from each file's front-matter
+                tags: {
+                  artist: argv.artist,
+                  album: argv.album,
+                  comment: argv.comment,
+                },
+                coverFile: argv.cover,
+                introFile: argv.intro as string | undefined,
+                outroFile: argv.outro as string | undefined,
+                bgmFadeIn: argv.bgmFadeIn,
+                bgmFadeOut: argv.bgmFadeOut,
+                bgmCrossfade: argv.bgmCrossfade,
+                bgmIntro: argv.bgmIntro,
+                bgmDucking: argv.bgmDucking,
+                loudness: argv.loudness as number | undefined,
+                truePeak: argv.truePeak,
+                matchSpeakerLevels: argv.matchSpeakerLevels,
+                normalize,
               });
               console.log(`  ✓ Successfully converted: ${file}`);
             } catch (error) {
@@ -754,20 +1855,138 @@ async function main() {
         }
       }
     )
+    .command(
+      'feed',
+      'Write a podcast RSS feed for the audio files of a batch-generate output directory.',
+      (yargs) => {
+        return yargs
+          .option('directory', {
+            alias: 'd',
+            type: 'string',
+            description: 'Directory name under audio/ (e.g., 1222). Episode metadata is read from the scripts in texts/<directory>.',
+            demandOption: true,
+          })
+          .option('base-url', {
+            type: 'string',
+            description: 'Public URL where the files of the directory are hosted (e.g., https://example.com/podcast).',
+            demandOption: true,
+          })
+          .option('title', {
+            type: 'string',
+            description: 'Title of the podcast. Defaults to the directory name.',
+          })
+          .option('description', {
+            type: 'string',
+            description: 'Description of the podcast. Defaults to the title.',
+          })
+          .option('author', {
+            type: 'string',
+            description: 'Author of the podcast (itunes:author).',
+          })
+          .option('owner-name', {
+            type: 'string',
+            description: 'Name of the owner (itunes:owner).',
+          })
+          .option('owner-email', {
+            type: 'string',
+            description: 'Email address of the owner (itunes:owner).',
+          })
+          .option('image', {
+            type: 'string',
+            description: 'URL of the cover art (at least 1400x1400 pixels for Apple Podcasts).',
+          })
+          .option('category', {
+            type: 'string',
+            description: 'iTunes category (e.g., Technology).',
+          })
+          .option('language', {
+            type: 'string',
+            description: 'Language of the podcast.',
+            default: 'ja',
+          })
+          .option('explicit', {
+            type: 'boolean',
+            description: 'Mark the podcast as explicit.',
+            default: false,
+          })
+          .option('output', {
+            type: 'string',
+            description: 'Path of the feed file. Defaults to audio/<directory>/feed.xml.',
+          });
+      },
+      async (argv) => {
+        try {
+          const dirName = argv.directory as string;
+          const audioDir = path.resolve('audio', dirName);
+          const textsDir = path.resolve('texts', dirName);
+          const outputPath = path.resolve(argv.output ?? path.join(audioDir, 'feed.xml'));
+
+          try {
+            new URL(argv.baseUrl);
+          } catch {
+            throw new Error(`--base-url must be an absolute URL (got ${argv.baseUrl}).`);
+          }
+
+          try {
+            await fsPromises.access(audioDir, fs.constants.F_OK);
+          } catch {
+            throw new Error(`Audio directory does not exist: ${audioDir}`);
+          }
+
+          console.log(`Reading episodes from: ${audioDir}`);
+          const episodes = await loadEpisodes(audioDir, textsDir);
+          if (episodes.length === 0) {
+            throw new Error(`No audio files found in ${audioDir}. Run batch-generate first.`);
+          }
+
+          const title = argv.title ?? dirName;
+          const feed = createFeedXml({
+            title,
+            description: argv.description ?? title,
+            baseUrl: argv.baseUrl,
+            feedFileName: path.basename(outputPath),
+            language: argv.language,
+            author: argv.author,
+            ownerName: argv.ownerName,
+            ownerEmail: argv.ownerEmail,
+            imageUrl: argv.image,
+            category: argv.category,
+            explicit: argv.explicit,
+          }, episodes);
+
+          await fsPromises.writeFile(outputPath, feed, 'utf-8');
+          console.log(`Successfully saved a feed with ${episodes.length} episodes to: ${outputPath}`);
+        } catch (error) {
+          console.error(error instanceof Error ? `\nError: ${error.message}\n` : String(error));
+          process.exit(1);
+        }
+      }
+    )
     .command(
       'list-characters',
       'List all available characters. Manages the VOICEVOX engine container.',
-      {},
-      async () => {
+      (yargs) => {
+        return yargs
+          .option('morphable', {
+            type: 'boolean',
+            description: 'Also list the styles each style can be blended with (morph=).',
+            default: false,
+          })
+          .options(engineOptions);
+      },
+      async (argv) => {
         try {
-          await prepareAndStartEngine();
+          const engine = await prepareEngine(argv);
           console.log('Fetching available characters...');
-          const speakers = await getCharacters();
+          const speakers = await engine.listSpeakers();
+          const styleIds = speakers.flatMap(speaker => speaker.styles.map(style => style.id));
+          const morphableTargets = argv.morphable ? await getMorphableTargets(styleIds, getMorphingBaseUrl(engine)) : undefined;
           const characterTable = speakers.flatMap(speaker =>
             speaker.styles.map(style => ({
               ID: style.id,
               Character: speaker.name,
               Style: style.name,
+              ...(morphableTargets ? { 'Morphable with': morphableTargets.get(style.id)?.join(', ') || '-' } : {}),
             }))
           );
           console.table(characterTable);
@@ -782,6 +2001,90 @@ async function main() {
         }
       }
     )
+    .command(
+      'validate <files..>',
+      'Check scripts for problems without synthesizing them.',
+      (yargs) => {
+        return yargs
+          .positional('files', {
+            describe: 'Script or text files to check',
+            type: 'string',
+            array: true,
+          })
+          .option('max-line-length', {
+            type: 'number',
+            description: 'Report dialogue lines longer than this many characters.',
+            default: 600,
+          })
+          .option('strict', {
+            type: 'boolean',
+            description: 'Exit with an error code on warnings as well as errors.',
+            default: false,
+          })
+          .option('json', {
+            type: 'boolean',
+            description: 'Print the result as JSON (for editor integrations).',
+            default: false,
+          })
+          .options(engineOptions);
+      },
+      async (argv) => {
+        try {
+          const files = (argv.files ?? []) as string[];
+
+          // Speaker IDs and names are checked only if the engine is already reachable;
+          // validate never starts the container. The stub's single speaker says nothing about a real script.
+          const isStubEngine = argv.engine === 'stub';
+          let speakers: Speaker[] | undefined;
+          if (!isStubEngine) {
+            try {
+              const engine = createEngine(argv.engine as EngineName, { baseUrl: argv.engineUrl });
+              speakers = await engine.listSpeakers();
+            } catch {
+              speakers = undefined;
+            }
+          }
+
+          const results = [];
+          for (const file of files) {
+            const filePath = path.resolve(file);
+            let content: string;
+            try {
+              content = await fsPromises.readFile(filePath, 'utf-8');
+            } catch {
+              results.push({ file, issues: [{ severity: 'error' as const, line: 1, column: 1, message: `File not found: ${filePath}` }] });
+              continue;
+            }
+            results.push({ file, issues: validateScript(content, filePath, { maxLineLength: argv.maxLineLength, speakers }) });
+          }
+
+          const allIssues = results.flatMap(result => result.issues);
+          const errorCount = allIssues.filter(issue => issue.severity === 'error').length;
+          const warningCount = allIssues.length - errorCount;
+
+          if (argv.json) {
+            console.log(JSON.stringify({ speakersChecked: speakers !== undefined, files: results }, null, 2));
+          } else {
+            for (const result of results) {
+              result.issues.forEach(issue => console.log(formatIssue(issue, result.file)));
+            }
+            if (isStubEngine) {
+              console.log('Note: The stub engine has no real speakers, so speaker IDs and names were not checked.');
+            } else if (!speakers) {
+              console.log('Note: The engine is not reachable, so speaker IDs and names were not checked.');
+            }
+            console.log(`${errorCount} error(s), ${warningCount} warning(s) in ${results.length} file(s).`);
+          }
+
+          if (errorCount > 0 || (argv.strict && warningCount > 0)) {
+            process.exit(1);
+          }
+        } catch (error) {
+          console.error(error instanceof Error ? `Error: ${error.message}` : String(error));
+          process.exit(1);
+        }
+      }
+    )
     .command(
       'docker <action>',
       'Manage the VOICEVOX engine Docker container.',
@@ -820,6 +2123,213 @@ async function main() {
         }
       }
     )
+    .command(
+      'dict',
+      "Manage the engine's user dictionary. Manages the VOICEVOX engine container.",
+      (yargs) => {
+        // Every subcommand talks to a running engine and reports errors the same way
+        const withEngine = <T extends { engine?: string; engineUrl?: string }>(action: (baseUrl: string, argv: T) => Promise<void>) =>
+          async (argv: T) => {
+            try {
+              const engine = await prepareEngine(argv);
+              await action(getDictionaryBaseUrl(engine), argv);
+            } catch (error) {
+              if (error instanceof InfoMessage) {
+                console.log(error.message);
+                process.exit(0);
+              } else {
+                console.error(error instanceof Error ? `\nError: ${error.message}\n` : String(error));
+                process.exit(1);
+              }
+            }
+          };
+
+        return yargs
+          .command(
+            'list',
+            'List the words in the user dictionary.',
+            (yargs) => yargs.options(engineOptions),
+            withEngine(async (baseUrl) => {
+              const words = Object.values(await getUserDictionary(baseUrl)).map(fromEngineWord);
+              if (words.length === 0) {
+                console.log('The user dictionary is empty.');
+                return;
+              }
+              console.table(sortDictionaryWords(words).map(word => ({
+                Surface: word.surface,
+                Pronunciation: word.pronunciation,
+                Accent: word.accent,
+                Type: word.wordType,
+                Priority: word.priority,
+              })));
+            })
+          )
+          .command(
+            'add <surface> <pronunciation> <accent>',
+            'Add a word, or update it if the dictionary already has it.',
+            (yargs) => yargs
+              .positional('surface', {
+                describe: 'The word as written in scripts (e.g. Kubernetes)',
+                type: 'string',
+                demandOption: true,
+              })
+              .positional('pronunciation', {
+                describe: 'Reading in katakana (e.g. クバネティス)',
+                type: 'string',
+                demandOption: true,
+              })
+              .positional('accent', {
+                describe: 'Mora on which the pitch drops, counted from 1 (0 = flat)',
+                type: 'number',
+                demandOption: true,
+              })
+              .option('word-type', {
+                type: 'string',
+                description: 'Part of speech of the word.',
+                choices: WORD_TYPES,
+                default: 'PROPER_NOUN',
+              })
+              .option('priority', {
+                type: 'number',
+                description: 'Priority from 0 (lowest) to 10 (highest) over the built-in dictionary.',
+                default: 5,
+              })
+              .options(engineOptions),
+            withEngine(async (baseUrl, argv) => {
+              const word: DictionaryWord = {
+                surface: argv.surface,
+                pronunciation: argv.pronunciation,
+                accent: argv.accent,
+                wordType: argv.wordType as WordType,
+                priority: argv.priority,
+              };
+              const problems = validateDictionaryWord(word);
+              if (problems.length > 0) {
+                throw new Error(`Invalid word:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+              }
+
+              const [uuid] = findWordsBySurface(await getUserDictionary(baseUrl), word.surface);
+              if (uuid) {
+                await updateUserDictionaryWord(baseUrl, uuid, word);
+                console.log(`Updated "${word.surface}": ${word.pronunciation} (accent ${word.accent}).`);
+              } else {
+                await addUserDictionaryWord(baseUrl, word);
+                console.log(`Added "${word.surface}": ${word.pronunciation} (accent ${word.accent}).`);
+              }
+            })
+          )
+          .command(
+            'remove <surface>',
+            'Remove a word from the user dictionary.',
+            (yargs) => yargs
+              .positional('surface', {
+                describe: 'The word to remove',
+                type: 'string',
+                demandOption: true,
+              })
+              .options(engineOptions),
+            withEngine(async (baseUrl, argv) => {
+              const uuids = findWordsBySurface(await getUserDictionary(baseUrl), argv.surface);
+              if (uuids.length === 0) {
+                throw new Error(`"${argv.surface}" is not in the user dictionary.`);
+              }
+              for (const uuid of uuids) {
+                await deleteUserDictionaryWord(baseUrl, uuid);
+              }
+              console.log(`Removed "${argv.surface}".`);
+            })
+          )
+          .command(
+            'import [file]',
+            'Add and update the words of a dictionary file in the engine.',
+            (yargs) => yargs
+              .positional('file', {
+                describe: 'dictionary.json, or a dictionary exported from the VOICEVOX editor',
+                type: 'string',
+                default: DEFAULT_DICTIONARY_FILE,
+              })
+              .option('replace', {
+                type: 'boolean',
+                description: 'Also remove the words that are not in the file, so that the engine has exactly the words of the file.',
+                default: false,
+              })
+              .options(engineOptions),
+            withEngine(async (baseUrl, argv) => {
+              const filePath = path.resolve(argv.file);
+              const words = await loadDictionaryFile(filePath);
+              const result = await syncUserDictionary(baseUrl, words);
+
+              let removed = 0;
+              if (argv.replace) {
+                const dictionary = await getUserDictionary(baseUrl);
+                const keep = new Set(words.flatMap(word => findWordsBySurface(dictionary, word.surface)));
+                for (const uuid of Object.keys(dictionary).filter(uuid => !keep.has(uuid))) {
+                  await deleteUserDictionaryWord(baseUrl, uuid);
+                  removed++;
+                }
+              }
+              console.log(`Imported ${filePath}: ${result.added} added, ${result.updated} updated, ${result.unchanged} unchanged${argv.replace ? `, ${removed} removed` : ''}.`);
+            })
+          )
+          .command(
+            'export [file]',
+            'Write the words of the user dictionary to a dictionary file.',
+            (yargs) => yargs
+              .positional('file', {
+                describe: 'Output file',
+                type: 'string',
+                default: DEFAULT_DICTIONARY_FILE,
+              })
+              .options(engineOptions),
+            withEngine(async (baseUrl, argv) => {
+              const filePath = path.resolve(argv.file);
+              const words = Object.values(await getUserDictionary(baseUrl)).map(fromEngineWord);
+              await fsPromises.writeFile(filePath, formatDictionaryFile(words), 'utf-8');
+              console.log(`Exported ${words.length} words to: ${filePath}`);
+            })
+          )
+          .demandCommand(1, 'Specify a dict subcommand: list, add, remove, import or export.');
+      }
+    )
+    .command(
+      'cache <action>',
+      'Manage the on-disk synthesis cache.',
+      (yargs) => {
+        return yargs
+          .positional('action', {
+            describe: 'The action to perform',
+            type: 'string',
+            choices: ['stats', 'clear'],
+          })
+          .option('cache-dir', {
+            type: 'string',
+            description: 'Directory of the synthesis cache.',
+            default: DEFAULT_CACHE_DIR,
+          });
+      },
+      async (argv) => {
+        try {
+          const cacheDir = path.resolve(argv.cacheDir);
+          switch (argv.action) {
+            case 'stats': {
+              const stats = await getCacheStats(cacheDir);
+              console.log(`Cache directory: ${cacheDir}`);
+              console.log(`Entries: ${stats.entries}`);
+              console.log(`Size: ${(stats.totalBytes / 1024 / 1024).toFixed(1)} MB`);
+              break;
+            }
+            case 'clear': {
+              const deleted = await clearCache(cacheDir);
+              console.log(`Deleted ${deleted} cached entries from ${cacheDir}.`);
+              break;
+            }
+          }
+        } catch (error) {
+          console.error(error instanceof Error ? `Error: ${error.message}` : String(error));
+          process.exit(1);
+        }
+      }
+    )
     .demandCommand(1, 'You need at least one command before moving on.')
     .help('h')
     .alias('h', 'help')
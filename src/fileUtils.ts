@@ -0,0 +1,13 @@
+import * as fsPromises from 'fs/promises';
+
+/**
+ * Whether a file or directory exists at the path
+ */
+export async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fsPromises.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Optional front-matter block at the top of .script/.txt files
+ *
+ * Example:
+ * ---
+ * title: 第12回 生成AIの最新動向
+ * speaker: 14
+ * speed: 1.1
+ * bgm: ../../bgm/jazz.mp3
+ * bgm-volume: 0.08
+ * format: mp3
+ * normalize: markdown,urls
+ * artist: ずんだもんラジオ
+ * episode: 12
+ * ---
+ *
+ * Settings are merged with the command line: explicit CLI flags win over
+ * front-matter, which wins over the built-in defaults. Keys that are not
+ * settings are kept as free-form metadata.
+ */
+
+import { ScriptIssue } from './scriptIssues';
+
+export interface FrontMatter {
+  title?: string;
+  /** Default speaker: a style ID, character name or `name/style` */
+  speaker?: string;
+  pitch?: number;
+  intonationScale?: number;
+  speed?: number;
+  volumeScale?: number;
+  prePhonemeLength?: number;
+  postPhonemeLength?: number;
+  pauseLengthScale?: number;
+  /** Sampling rate the engine synthesizes at */
+  outputSamplingRate?: number;
+  lineGap?: number;
+  speakerChangeGap?: number;
+  /** BGM file, relative to the script file */
+  bgm?: string;
+  bgmVolume?: number;
+  /** Intro jingle, relative to the script file */
+  intro?: string;
+  /** Outro jingle, relative to the script file */
+  outro?: string;
+  /** Target integrated loudness in LUFS */
+  loudness?: number;
+  /** Output format (file extension without the dot) */
+  format?: string;
+  /** Text normalization rules: all, none or a comma-separated list (e.g. markdown,urls) */
+  normalize?: string;
+  /** Every other key, e.g. artist, album, episode, comment */
+  metadata: Record<string, string>;
+}
+
+export interface ParsedFrontMatter {
+  frontMatter: FrontMatter;
+  /**
+   * Script content without the front-matter. The block is replaced by empty lines
+   * so that line numbers in warnings still match the file.
+   */
+  body: string;
+  issues: ScriptIssue[];
+}
+
+const NUMBER_KEYS = [
+  'pitch', 'intonationScale', 'speed', 'volumeScale', 'prePhonemeLength', 'postPhonemeLength', 'pauseLengthScale', 'outputSamplingRate',
+  'lineGap', 'speakerChangeGap', 'bgmVolume', 'loudness',
+] as const;
+const STRING_KEYS = ['title', 'speaker', 'bgm', 'intro', 'outro', 'format', 'normalize'] as const;
+
+type NumberKey = typeof NUMBER_KEYS[number];
+type StringKey = typeof STRING_KEYS[number];
+
+/**
+ * bgm-volume / bgm_volume / bgmVolume -> bgmVolume
+ */
+function normalizeKey(key: string): string {
+  return key.replace(/[-_]+([a-zA-Z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function unquote(value: string): string {
+  const match = value.match(/^(["'])(.*)\1$/);
+  return match ? match[2] : value;
+}
+
+/**
+ * Split the front-matter from the script. Content without a leading `---` block is returned unchanged.
+ */
+export function parseFrontMatter(content: string): ParsedFrontMatter {
+  const frontMatter: FrontMatter = { metadata: {} };
+  const issues: ScriptIssue[] = [];
+  const lines = content.split('\n');
+
+  // The block must start on the first non-empty line
+  const startIndex = lines.findIndex(line => line.trim().length > 0);
+  if (startIndex === -1 || lines[startIndex].trim() !== '---') {
+    return { frontMatter, body: content, issues };
+  }
+
+  const endIndex = lines.findIndex((line, index) => index > startIndex && line.trim() === '---');
+  if (endIndex === -1) {
+    issues.push({ severity: 'warning', line: startIndex + 1, column: 1, message: 'Front-matter is not closed with "---" and will be ignored' });
+    return { frontMatter, body: content, issues };
+  }
+
+  for (let i = startIndex + 1; i < endIndex; i++) {
+    const line = lines[i].trim();
+    if (line.length === 0 || line.startsWith('#')) continue;
+
+    const match = line.match(/^([A-Za-z][\w-]*)\s*:\s*(.*)$/);
+    if (!match) {
+      issues.push({ severity: 'warning', line: i + 1, column: 1, message: 'Front-matter line is not a "key: value" pair and will be skipped' });
+      continue;
+    }
+
+    const key = normalizeKey(match[1]);
+    const value = unquote(match[2].trim());
+
+    if ((NUMBER_KEYS as readonly string[]).includes(key)) {
+      const number = Number(value);
+      if (value === '' || isNaN(number)) {
+        issues.push({ severity: 'warning', line: i + 1, column: lines[i].indexOf(':') + 2, message: `Invalid number "${value}" for "${key}", skipping` });
+        continue;
+      }
+      frontMatter[key as NumberKey] = number;
+    } else if ((STRING_KEYS as readonly string[]).includes(key)) {
+      frontMatter[key as StringKey] = value;
+    } else {
+      frontMatter.metadata[key] = value;
+    }
+  }
+
+  if (frontMatter.format) {
+    frontMatter.format = frontMatter.format.replace(/^\./, '').toLowerCase();
+  }
+
+  const body = [
+    ...lines.slice(0, endIndex + 1).map(() => ''),
+    ...lines.slice(endIndex + 1),
+  ].join('\n');
+
+  return { frontMatter, body, issues };
+}
@@ -0,0 +1,184 @@
+/**
+ * Job manifest for resumable generation
+ *
+ * While `generate` runs, every finished line is written to `<jobDir>/line-0001.wav`
+ * and recorded in `<jobDir>/manifest.json`. If the process or the engine dies,
+ * `--resume` reuses the finished lines and only synthesizes the missing ones.
+ *
+ * The job directory may be given by the user, so only the files the job owns (the manifest
+ * and the line WAVs) are ever deleted, and a directory with other content is never taken over.
+ */
+
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { fileExists } from './fileUtils';
+
+const MANIFEST_FILE_NAME = 'manifest.json';
+const MANIFEST_VERSION = 1;
+const LINE_FILE_PATTERN = /^line-\d+\.wav$/;
+
+export interface JobLine {
+  /** Human readable position in the script (e.g. "Line 12") */
+  label: string;
+  /** Hash of everything that affects the line's audio */
+  hash: string;
+  /** WAV file name inside the job directory */
+  file: string;
+  completed: boolean;
+}
+
+export interface JobManifest {
+  version: number;
+  textFilePath: string;
+  outputFilePath: string;
+  createdAt: string;
+  updatedAt: string;
+  lines: JobLine[];
+}
+
+export interface JobInput {
+  textFilePath: string;
+  outputFilePath: string;
+  lines: { label: string; hash: string }[];
+}
+
+export interface Job {
+  dir: string;
+  manifest: JobManifest;
+  /** Number of lines reused from a previous run */
+  resumedLineCount: number;
+  isLineCompleted(lineIndex: number): boolean;
+  /** Save a finished line and record it in the manifest */
+  completeLine(lineIndex: number, audioBuffer: Buffer): Promise<void>;
+  /** Absolute paths of the per-line WAV files in script order */
+  getLineFilePaths(): string[];
+  /** Delete the job's files once the output has been written, and the directory if nothing else is left */
+  remove(): Promise<void>;
+}
+
+/**
+ * Default job directory: a hidden directory next to the output file
+ */
+export function getDefaultJobDir(outputFilePath: string): string {
+  const resolvedOutputFilePath = path.resolve(outputFilePath);
+  const baseName = path.basename(resolvedOutputFilePath, path.extname(resolvedOutputFilePath));
+  return path.join(path.dirname(resolvedOutputFilePath), `.${baseName}.job`);
+}
+
+async function readManifest(jobDir: string): Promise<JobManifest | undefined> {
+  try {
+    const content = await fsPromises.readFile(path.join(jobDir, MANIFEST_FILE_NAME), 'utf-8');
+    const manifest = JSON.parse(content) as JobManifest;
+    return manifest.version === MANIFEST_VERSION ? manifest : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Names of the files in a directory, or an empty list if it does not exist
+ */
+async function readDirectory(dir: string): Promise<string[]> {
+  try {
+    return await fsPromises.readdir(dir);
+  } catch {
+    return [];
+  }
+}
+
+function isJobFile(name: string): boolean {
+  return name === MANIFEST_FILE_NAME || name === `${MANIFEST_FILE_NAME}.tmp` || LINE_FILE_PATTERN.test(name);
+}
+
+/**
+ * Delete the manifest and line WAVs of a job, leaving everything else in the directory alone
+ */
+async function removeJobFiles(dir: string): Promise<void> {
+  const names = (await readDirectory(dir)).filter(isJobFile);
+  await Promise.all(names.map(name => fsPromises.rm(path.join(dir, name), { force: true })));
+}
+
+/**
+ * Open the job for a generation run.
+ * With `resume`, lines whose hash is unchanged and whose WAV file still exists are kept;
+ * otherwise any previous job in the directory is discarded.
+ */
+export async function openJob(jobDir: string, input: JobInput, resume: boolean): Promise<Job> {
+  const dir = path.resolve(jobDir);
+  const entries = await readDirectory(dir);
+  if (entries.length > 0 && !entries.includes(MANIFEST_FILE_NAME)) {
+    throw new Error(`Job directory ${dir} is not empty and contains no ${MANIFEST_FILE_NAME}. Choose an empty or new directory with --job-dir.`);
+  }
+
+  const previous = resume ? await readManifest(dir) : undefined;
+
+  if (resume && !previous) {
+    console.log(`No previous job found in ${dir}. Starting from the beginning.`);
+  }
+  if (!resume) {
+    await removeJobFiles(dir);
+  }
+  await fsPromises.mkdir(dir, { recursive: true });
+
+  const now = new Date().toISOString();
+  const lines: JobLine[] = [];
+  let resumedLineCount = 0;
+
+  for (let i = 0; i < input.lines.length; i++) {
+    const { label, hash } = input.lines[i];
+    const file = `line-${String(i + 1).padStart(4, '0')}.wav`;
+    // Lines are matched by position; the cache still covers lines that merely moved
+    const previousLine = previous?.lines[i];
+    const completed = previousLine !== undefined
+      && previousLine.completed
+      && previousLine.hash === hash
+      && await fileExists(path.join(dir, file));
+
+    if (completed) resumedLineCount++;
+    lines.push({ label, hash, file, completed });
+  }
+
+  const manifest: JobManifest = {
+    version: MANIFEST_VERSION,
+    textFilePath: input.textFilePath,
+    outputFilePath: input.outputFilePath,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+    lines,
+  };
+
+  // Serialize manifest writes: lines complete concurrently. A failed write is reported to its
+  // caller only and does not stop the writes queued after it.
+  let saveQueue: Promise<void> = Promise.resolve();
+  const saveManifest = (): Promise<void> => {
+    saveQueue = saveQueue.catch(() => undefined).then(async () => {
+      manifest.updatedAt = new Date().toISOString();
+      const manifestPath = path.join(dir, MANIFEST_FILE_NAME);
+      await fsPromises.writeFile(`${manifestPath}.tmp`, JSON.stringify(manifest, null, 2));
+      await fsPromises.rename(`${manifestPath}.tmp`, manifestPath);
+    });
+    return saveQueue;
+  };
+
+  await saveManifest();
+
+  return {
+    dir,
+    manifest,
+    resumedLineCount,
+    isLineCompleted: (lineIndex) => manifest.lines[lineIndex].completed,
+    completeLine: async (lineIndex, audioBuffer) => {
+      const line = manifest.lines[lineIndex];
+      await fsPromises.writeFile(path.join(dir, line.file), audioBuffer);
+      line.completed = true;
+      await saveManifest();
+    },
+    getLineFilePaths: () => manifest.lines.map(line => path.join(dir, line.file)),
+    remove: async () => {
+      await removeJobFiles(dir);
+      if ((await readDirectory(dir)).length === 0) {
+        await fsPromises.rmdir(dir);
+      }
+    },
+  };
+}
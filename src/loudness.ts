@@ -0,0 +1,201 @@
+/**
+ * Loudness normalization with ffmpeg's loudnorm filter (EBU R128)
+ *
+ * The final mix is measured in a first pass and corrected in a second pass with the
+ * measured values, which lets loudnorm apply a linear gain instead of dynamic compression.
+ * Per-speaker level matching works on the synthesized 16-bit PCM before concatenation.
+ */
+
+import { parseWavHeader } from './wavUtils';
+const ffmpeg = require('fluent-ffmpeg');
+
+/**
+ * Podcast targets: -16 LUFS integrated (stereo), -1.5 dBTP true peak
+ */
+export const DEFAULT_TRUE_PEAK = -1.5;
+export const DEFAULT_LOUDNESS_RANGE = 11;
+
+export interface LoudnessTarget {
+  /** Integrated loudness in LUFS */
+  integrated: number;
+  /** Maximum true peak in dBTP */
+  truePeak: number;
+  /** Loudness range in LU */
+  range: number;
+}
+
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS */
+  integrated: number;
+  /** True peak in dBTP */
+  truePeak: number;
+  /** Loudness range in LU */
+  range: number;
+  /** Gating threshold in LUFS */
+  threshold: number;
+  /** Offset gain loudnorm applies after its own processing */
+  targetOffset: number;
+}
+
+function formatTarget(target: LoudnessTarget): string {
+  return `I=${target.integrated}:TP=${target.truePeak}:LRA=${target.range}`;
+}
+
+/**
+ * loudnorm measures the channels it is given, so the signal is brought to the output
+ * channel layout first. A mono voice track is 3 LU quieter than the same voice in stereo.
+ */
+function channelLayoutFilter(channels: number): string {
+  return `aformat=channel_layouts=${channels === 1 ? 'mono' : 'stereo'}`;
+}
+
+/**
+ * loudnorm prints its measurement as a JSON object at the end of ffmpeg's log output.
+ * `input` reads the values before correction, `output` the values of the corrected audio.
+ */
+export function parseLoudnormOutput(stderr: string, prefix: 'input' | 'output'): LoudnessMeasurement {
+  const start = stderr.lastIndexOf('{');
+  const end = stderr.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('Could not find the loudnorm measurement in the FFmpeg output');
+  }
+
+  const values = JSON.parse(stderr.substring(start, end + 1)) as Record<string, string>;
+  const read = (key: string): number => {
+    const value = Number(values[key]);
+    if (isNaN(value)) {
+      throw new Error(`Invalid loudnorm value for "${key}": ${values[key]}`);
+    }
+    return value;
+  };
+
+  return {
+    integrated: read(`${prefix}_i`),
+    truePeak: read(`${prefix}_tp`),
+    range: read(`${prefix}_lra`),
+    threshold: read(`${prefix}_thresh`),
+    targetOffset: read('target_offset'),
+  };
+}
+
+/**
+ * First pass: measure the loudness of a file against the target
+ */
+export function measureLoudness(filePath: string, target: LoudnessTarget, channels: number): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    ffmpeg(filePath)
+      .audioFilters([channelLayoutFilter(channels), `loudnorm=${formatTarget(target)}:print_format=json`])
+      .format('null')
+      .on('end', (_stdout: string, stderr: string) => {
+        try {
+          resolve(parseLoudnormOutput(stderr, 'input'));
+        } catch (error) {
+          reject(error);
+        }
+      })
+      .on('error', (err: Error) => {
+        reject(new Error(`Loudness measurement failed: ${err.message}. Make sure FFmpeg is installed on your system.`));
+      })
+      .save('-');
+  });
+}
+
+/**
+ * Second pass: the filters that correct a file measured by measureLoudness().
+ * loudnorm prints the values of the corrected audio, which parseLoudnormOutput(stderr, 'output') reads.
+ */
+export function createLoudnormFilters(target: LoudnessTarget, measured: LoudnessMeasurement, channels: number): string[] {
+  const loudnorm = [
+    `loudnorm=${formatTarget(target)}`,
+    `measured_I=${measured.integrated}`,
+    `measured_TP=${measured.truePeak}`,
+    `measured_LRA=${measured.range}`,
+    `measured_thresh=${measured.threshold}`,
+    `offset=${measured.targetOffset}`,
+    'linear=true',
+    'print_format=json',
+  ].join(':');
+  return [channelLayoutFilter(channels), loudnorm];
+}
+
+/**
+ * Gated RMS level of a 16-bit PCM WAV in dBFS. The signal is measured in 100ms blocks
+ * and blocks quieter than -50 dBFS are ignored, so pauses do not pull a speaker down.
+ * Returns undefined for files that contain only silence.
+ */
+export function measurePcmLevel(wav: Buffer): number | undefined {
+  const { format, dataOffset, dataLength } = parseWavHeader(wav);
+  if (format.bitDepth !== 16) {
+    throw new Error(`Level matching supports 16-bit PCM only (got ${format.bitDepth}-bit)`);
+  }
+
+  const samplesPerBlock = Math.max(1, Math.round(format.sampleRate * format.channels * 0.1));
+  const sampleCount = Math.floor(dataLength / 2);
+  const gateThreshold = Math.pow(10, -50 / 10);
+  let gatedSum = 0;
+  let gatedBlocks = 0;
+
+  for (let blockStart = 0; blockStart < sampleCount; blockStart += samplesPerBlock) {
+    const blockEnd = Math.min(sampleCount, blockStart + samplesPerBlock);
+    let sum = 0;
+    for (let i = blockStart; i < blockEnd; i++) {
+      const sample = wav.readInt16LE(dataOffset + i * 2) / 32768;
+      sum += sample * sample;
+    }
+    const meanSquare = sum / (blockEnd - blockStart);
+    if (meanSquare >= gateThreshold) {
+      gatedSum += meanSquare;
+      gatedBlocks++;
+    }
+  }
+
+  if (gatedBlocks === 0) return undefined;
+  return 10 * Math.log10(gatedSum / gatedBlocks);
+}
+
+/**
+ * Return a copy of 16-bit PCM samples with the gain applied. Samples are clamped to the 16-bit range.
+ * Works on any block of raw PCM, so a line can be scaled while it is streamed from disk.
+ */
+export function scalePcm(pcm: Buffer, gainDb: number): Buffer {
+  const result = Buffer.from(pcm);
+  const factor = Math.pow(10, gainDb / 20);
+  const end = pcm.length - (pcm.length % 2);
+  for (let offset = 0; offset < end; offset += 2) {
+    const sample = Math.round(pcm.readInt16LE(offset) * factor);
+    result.writeInt16LE(Math.max(-32768, Math.min(32767, sample)), offset);
+  }
+  return result;
+}
+
+/**
+ * Gain in dB per speaker that brings every speaker to the level of the quietest one.
+ * Matching down instead of up keeps the louder voices from clipping; the loudness
+ * normalization of the final mix brings the whole episode back up to the target.
+ *
+ * Each line is given with its level from measurePcmLevel(), so the lines never have to be in memory together.
+ */
+export function computeSpeakerGains(lines: { speaker: number; level: number | undefined }[]): Map<number, number> {
+  const levelSums = new Map<number, { sum: number; count: number }>();
+  for (const line of lines) {
+    const { level } = line;
+    if (level === undefined) continue;
+    const entry = levelSums.get(line.speaker) ?? { sum: 0, count: 0 };
+    // Average in the power domain; every line counts once
+    entry.sum += Math.pow(10, level / 10);
+    entry.count++;
+    levelSums.set(line.speaker, entry);
+  }
+
+  const levels = new Map<number, number>();
+  for (const [speaker, { sum, count }] of levelSums) {
+    levels.set(speaker, 10 * Math.log10(sum / count));
+  }
+
+  const quietest = Math.min(...levels.values());
+  const gains = new Map<number, number>();
+  for (const [speaker, level] of levels) {
+    gains.set(speaker, quietest - level);
+  }
+  return gains;
+}
@@ -0,0 +1,198 @@
+/**
+ * Output formats and encoder settings for the final ffmpeg encode
+ */
+
+import * as path from 'path';
+
+export const OUTPUT_FORMATS = ['mp3', 'm4a', 'opus', 'flac', 'wav'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+interface FormatSpec {
+  /** ffmpeg audio codec */
+  codec: string;
+  /** ffmpeg muxer */
+  muxer: string;
+  /** Default bitrate in kbps. Lossless formats have none. */
+  defaultBitrate?: number;
+  /** Default sample rate. Lossless formats keep the rate of the mix by default. */
+  defaultSampleRate?: number;
+  /** Sample rates the encoder accepts. Any rate is accepted when omitted. */
+  sampleRates?: number[];
+  /** Chapters can be embedded from an FFMETADATA file */
+  chapters: boolean;
+  /** Title/artist/album tags can be written */
+  tags: boolean;
+  /** A cover image can be attached */
+  coverArt: boolean;
+  /** Extra output options */
+  outputOptions: string[];
+}
+
+const FORMAT_SPECS: Record<OutputFormat, FormatSpec> = {
+  mp3: {
+    codec: 'libmp3lame',
+    muxer: 'mp3',
+    defaultBitrate: 128,
+    defaultSampleRate: 44100,
+    chapters: true,
+    tags: true,
+    coverArt: true,
+    outputOptions: ['-id3v2_version', '3'],
+  },
+  m4a: {
+    codec: 'aac',
+    muxer: 'ipod',
+    defaultBitrate: 128,
+    defaultSampleRate: 44100,
+    chapters: true,
+    tags: true,
+    coverArt: true,
+    // Put the index at the start so that players can stream the file
+    outputOptions: ['-movflags', '+faststart'],
+  },
+  opus: {
+    codec: 'libopus',
+    muxer: 'ogg',
+    defaultBitrate: 64,
+    defaultSampleRate: 48000,
+    sampleRates: [8000, 12000, 16000, 24000, 48000],
+    chapters: false,
+    tags: true,
+    coverArt: false,
+    outputOptions: [],
+  },
+  flac: {
+    codec: 'flac',
+    muxer: 'flac',
+    chapters: false,
+    tags: true,
+    coverArt: true,
+    outputOptions: [],
+  },
+  wav: {
+    codec: 'pcm_s16le',
+    muxer: 'wav',
+    chapters: false,
+    tags: false,
+    coverArt: false,
+    outputOptions: [],
+  },
+};
+
+export interface EncoderOptions {
+  /** Bitrate in kbps (lossy formats) */
+  bitrate?: number;
+  /** LAME VBR quality from 0 (best) to 9 (MP3 only). Replaces the constant bitrate. */
+  vbr?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface EncoderSettings {
+  format: OutputFormat;
+  /** Bitrate in kbps. Unset for lossless formats and for MP3 VBR. */
+  bitrate?: number;
+  vbr?: number;
+  /** Unset keeps the sample rate of the mix */
+  sampleRate?: number;
+  /** Unset keeps the channels of the mix */
+  channels?: number;
+}
+
+export function isOutputFormat(value: string): value is OutputFormat {
+  return (OUTPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Output format from a file name: episode.m4a -> m4a. Returns undefined for unknown extensions.
+ */
+export function getFormatFromPath(filePath: string): OutputFormat | undefined {
+  const extension = path.extname(filePath).toLowerCase().replace(/^\./, '');
+  return isOutputFormat(extension) ? extension : undefined;
+}
+
+export function supportsChapters(format: OutputFormat): boolean {
+  return FORMAT_SPECS[format].chapters;
+}
+
+export function supportsTags(format: OutputFormat): boolean {
+  return FORMAT_SPECS[format].tags;
+}
+
+export function supportsCoverArt(format: OutputFormat): boolean {
+  return FORMAT_SPECS[format].coverArt;
+}
+
+/**
+ * Validate the encoder options for a format and fill in its defaults
+ */
+export function resolveEncoderSettings(format: OutputFormat, options: EncoderOptions = {}): EncoderSettings {
+  const spec = FORMAT_SPECS[format];
+  const isLossless = spec.defaultBitrate === undefined;
+
+  if (isLossless && (options.bitrate !== undefined || options.vbr !== undefined)) {
+    throw new Error(`--bitrate and --vbr do not apply to the lossless ${format} format.`);
+  }
+  if (options.bitrate !== undefined && !(Number.isInteger(options.bitrate) && options.bitrate >= 8 && options.bitrate <= 512)) {
+    throw new Error(`--bitrate must be an integer between 8 and 512 kbps (got ${options.bitrate}).`);
+  }
+  if (options.vbr !== undefined) {
+    if (format !== 'mp3') {
+      throw new Error(`--vbr is only supported for mp3. ${format === 'opus' ? 'Opus is always encoded with a variable bitrate; use --bitrate to set its target.' : 'Use --bitrate instead.'}`);
+    }
+    if (!(Number.isInteger(options.vbr) && options.vbr >= 0 && options.vbr <= 9)) {
+      throw new Error(`--vbr must be an integer from 0 (best) to 9 (got ${options.vbr}).`);
+    }
+    if (options.bitrate !== undefined) {
+      throw new Error('--bitrate and --vbr cannot be used together.');
+    }
+  }
+  if (options.sampleRate !== undefined) {
+    if (!(Number.isInteger(options.sampleRate) && options.sampleRate >= 8000 && options.sampleRate <= 192000)) {
+      throw new Error(`--sample-rate must be an integer between 8000 and 192000 Hz (got ${options.sampleRate}).`);
+    }
+    if (spec.sampleRates && !spec.sampleRates.includes(options.sampleRate)) {
+      throw new Error(`${format} supports sample rates of ${spec.sampleRates.join(', ')} Hz (got ${options.sampleRate}).`);
+    }
+  }
+  if (options.channels !== undefined && options.channels !== 1 && options.channels !== 2) {
+    throw new Error(`--channels must be 1 (mono) or 2 (stereo) (got ${options.channels}).`);
+  }
+
+  return {
+    format,
+    bitrate: isLossless || options.vbr !== undefined ? undefined : options.bitrate ?? spec.defaultBitrate,
+    vbr: options.vbr,
+    sampleRate: options.sampleRate ?? spec.defaultSampleRate,
+    // Lossy formats have always been written in stereo
+    channels: options.channels ?? (isLossless ? undefined : 2),
+  };
+}
+
+/**
+ * ffmpeg output options for the codec, bitrate and container. Sample rate and channels are set by the caller.
+ */
+export function getEncoderOutputOptions(settings: EncoderSettings): string[] {
+  const spec = FORMAT_SPECS[settings.format];
+  const options = ['-c:a', spec.codec];
+  if (settings.vbr !== undefined) {
+    options.push('-q:a', String(settings.vbr));
+  } else if (settings.bitrate !== undefined) {
+    options.push('-b:a', `${settings.bitrate}k`);
+  }
+  options.push(...spec.outputOptions, '-f', spec.muxer);
+  return options;
+}
+
+/**
+ * Short description for log output, e.g. "mp3, 128 kbps, 44100 Hz, stereo" or "flac"
+ */
+export function describeEncoderSettings(settings: EncoderSettings): string {
+  const parts: string[] = [settings.format];
+  if (settings.vbr !== undefined) parts.push(`VBR V${settings.vbr}`);
+  if (settings.bitrate !== undefined) parts.push(`${settings.bitrate} kbps`);
+  if (settings.sampleRate !== undefined) parts.push(`${settings.sampleRate} Hz`);
+  if (settings.channels !== undefined) parts.push(settings.channels === 1 ? 'mono' : 'stereo');
+  return parts.join(', ');
+}
@@ -0,0 +1,313 @@
+/**
+ * RSS 2.0 podcast feed with iTunes and Podcasting 2.0 tags
+ *
+ * Episodes are the audio files in an output directory. Their metadata comes from the
+ * front-matter of the script with the same base name and from an optional
+ * `<name>.meta.json` sidecar next to the audio file, which wins over the front-matter.
+ */
+
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { parseFrontMatter } from './frontMatter';
+import { getAudioDuration } from './audioProbe';
+import { getChaptersSidecarPath } from './chapters';
+import { contentHash } from './contentHash';
+import { fileExists } from './fileUtils';
+import { getFormatFromPath, OutputFormat } from './outputFormat';
+
+export interface FeedChannel {
+  title: string;
+  description: string;
+  /** Public URL of the directory that holds the audio files */
+  baseUrl: string;
+  /** File name of the feed in that directory */
+  feedFileName: string;
+  language: string;
+  author?: string;
+  ownerName?: string;
+  ownerEmail?: string;
+  /** URL of the cover art */
+  imageUrl?: string;
+  category?: string;
+  explicit: boolean;
+}
+
+export interface FeedEpisode {
+  title: string;
+  description?: string;
+  fileName: string;
+  /** Size in bytes */
+  fileSize: number;
+  /** Duration in seconds */
+  duration: number;
+  pubDate: Date;
+  guid: string;
+  episode?: number;
+  season?: number;
+  author?: string;
+  explicit?: boolean;
+  /** File name of the Podcasting 2.0 chapters file */
+  chaptersFile?: string;
+  /** File name and MIME type of the subtitles */
+  transcript?: { fileName: string; type: string };
+}
+
+/**
+ * Episode metadata as written in the front-matter or the sidecar
+ */
+export interface EpisodeMetadata {
+  title?: string;
+  description?: string;
+  episode?: string;
+  season?: string;
+  /** Publication date in any format Date understands, e.g. 2026-10-18 */
+  date?: string;
+  guid?: string;
+  author?: string;
+  explicit?: string;
+}
+
+const ENCLOSURE_TYPES: Record<OutputFormat, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/x-m4a',
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+};
+
+const TRANSCRIPT_TYPES: Record<string, string> = {
+  '.vtt': 'text/vtt',
+  '.srt': 'application/x-subrip',
+};
+
+/**
+ * Namespace of podcast:guid (https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/tags/guid.md)
+ */
+const PODCAST_GUID_NAMESPACE = 'ead4c236-bf58-58c6-a2c6-a6b28d128cb6';
+
+const SCRIPT_EXTENSIONS = ['.script', '.txt'];
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function joinUrl(baseUrl: string, fileName: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}/${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * UUIDv5 of the feed URL without scheme and trailing slashes, as required by podcast:guid
+ */
+export function createPodcastGuid(feedUrl: string): string {
+  const name = feedUrl.replace(/^[a-z]+:\/\//i, '').replace(/\/+$/, '');
+  const namespace = Buffer.from(PODCAST_GUID_NAMESPACE.replace(/-/g, ''), 'hex');
+  const hash = createHash('sha1').update(namespace).update(name, 'utf-8').digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+}
+
+function parseOptionalInteger(value: string | undefined, key: string, fileName: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    console.warn(`Warning: ${fileName}: "${key}" must be a non-negative integer (got "${value}"), ignoring`);
+    return undefined;
+  }
+  return number;
+}
+
+async function readScriptMetadata(textsDir: string, baseName: string): Promise<EpisodeMetadata> {
+  for (const extension of SCRIPT_EXTENSIONS) {
+    let content: string;
+    try {
+      content = await fsPromises.readFile(path.join(textsDir, `${baseName}${extension}`), 'utf-8');
+    } catch {
+      continue;
+    }
+    const { frontMatter } = parseFrontMatter(content);
+    const { metadata } = frontMatter;
+    return {
+      title: frontMatter.title,
+      description: metadata.description ?? metadata.summary ?? metadata.comment,
+      episode: metadata.episode,
+      season: metadata.season,
+      date: metadata.date,
+      guid: metadata.guid,
+      author: metadata.artist ?? metadata.author,
+      explicit: metadata.explicit,
+    };
+  }
+  return {};
+}
+
+async function readSidecarMetadata(audioDir: string, baseName: string): Promise<EpisodeMetadata> {
+  const sidecarPath = path.join(audioDir, `${baseName}.meta.json`);
+  let content: string;
+  try {
+    content = await fsPromises.readFile(sidecarPath, 'utf-8');
+  } catch {
+    return {};
+  }
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${sidecarPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // Numbers and booleans are accepted as well as strings
+  const metadata: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (value !== null && value !== undefined) {
+      metadata[key] = String(value);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Collect every audio file in the directory as an episode, newest first
+ */
+export async function loadEpisodes(audioDir: string, textsDir: string): Promise<FeedEpisode[]> {
+  const files = await fsPromises.readdir(audioDir);
+  // Temporary files of a running generate are skipped
+  const audioFiles = files.filter(file => getFormatFromPath(file) !== undefined && !file.startsWith('temp_') && !file.startsWith('.'));
+
+  const episodes: FeedEpisode[] = [];
+  for (const fileName of audioFiles) {
+    const filePath = path.join(audioDir, fileName);
+    const baseName = path.basename(fileName, path.extname(fileName));
+    const stats = await fsPromises.stat(filePath);
+    const metadata: EpisodeMetadata = {
+      ...await readScriptMetadata(textsDir, baseName),
+      ...await readSidecarMetadata(audioDir, baseName),
+    };
+
+    let pubDate = stats.mtime;
+    if (metadata.date) {
+      const date = new Date(metadata.date);
+      if (isNaN(date.getTime())) {
+        console.warn(`Warning: ${fileName}: invalid date "${metadata.date}", using the file modification time`);
+      } else {
+        pubDate = date;
+      }
+    }
+
+    const chaptersPath = getChaptersSidecarPath(filePath);
+    let transcript: FeedEpisode['transcript'];
+    for (const [extension, type] of Object.entries(TRANSCRIPT_TYPES)) {
+      if (await fileExists(path.join(audioDir, `${baseName}${extension}`))) {
+        transcript = { fileName: `${baseName}${extension}`, type };
+        break;
+      }
+    }
+
+    episodes.push({
+      title: metadata.title ?? baseName,
+      description: metadata.description,
+      fileName,
+      fileSize: stats.size,
+      duration: await getAudioDuration(filePath),
+      pubDate,
+      // Derived from the directory and file name so that it survives re-encoding and moving the feed
+      guid: metadata.guid ?? contentHash({ directory: path.basename(audioDir), episode: baseName }),
+      episode: parseOptionalInteger(metadata.episode, 'episode', fileName),
+      season: parseOptionalInteger(metadata.season, 'season', fileName),
+      author: metadata.author,
+      explicit: metadata.explicit === undefined ? undefined : ['true', 'yes', '1'].includes(metadata.explicit.toLowerCase()),
+      chaptersFile: await fileExists(chaptersPath) ? path.basename(chaptersPath) : undefined,
+      transcript,
+    });
+  }
+
+  return episodes.sort((a, b) => b.pubDate.getTime() - a.pubDate.getTime());
+}
+
+function createItemXml(channel: FeedChannel, episode: FeedEpisode): string {
+  const format = getFormatFromPath(episode.fileName) as OutputFormat;
+  const lines = [
+    '    <item>',
+    `      <title>${escapeXml(episode.title)}</title>`,
+    `      <guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+    `      <pubDate>${episode.pubDate.toUTCString()}</pubDate>`,
+    `      <enclosure url="${escapeXml(joinUrl(channel.baseUrl, episode.fileName))}" length="${episode.fileSize}" type="${ENCLOSURE_TYPES[format]}"/>`,
+    `      <itunes:duration>${Math.round(episode.duration)}</itunes:duration>`,
+  ];
+  if (episode.description) {
+    lines.push(`      <description>${escapeXml(episode.description)}</description>`);
+  }
+  if (episode.author) {
+    lines.push(`      <itunes:author>${escapeXml(episode.author)}</itunes:author>`);
+  }
+  if (episode.explicit !== undefined) {
+    lines.push(`      <itunes:explicit>${episode.explicit}</itunes:explicit>`);
+  }
+  if (episode.season !== undefined) {
+    lines.push(`      <itunes:season>${episode.season}</itunes:season>`);
+    lines.push(`      <podcast:season>${episode.season}</podcast:season>`);
+  }
+  if (episode.episode !== undefined) {
+    lines.push(`      <itunes:episode>${episode.episode}</itunes:episode>`);
+    lines.push(`      <podcast:episode>${episode.episode}</podcast:episode>`);
+  }
+  if (episode.chaptersFile) {
+    lines.push(`      <podcast:chapters url="${escapeXml(joinUrl(channel.baseUrl, episode.chaptersFile))}" type="application/json+chapters"/>`);
+  }
+  if (episode.transcript) {
+    lines.push(`      <podcast:transcript url="${escapeXml(joinUrl(channel.baseUrl, episode.transcript.fileName))}" type="${episode.transcript.type}"/>`);
+  }
+  lines.push('    </item>');
+  return lines.join('\n');
+}
+
+export function createFeedXml(channel: FeedChannel, episodes: FeedEpisode[], buildDate = new Date()): string {
+  const feedUrl = joinUrl(channel.baseUrl, channel.feedFileName);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:podcast="https://podcastindex.org/namespace/1.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.baseUrl)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <language>${escapeXml(channel.language)}</language>`,
+    `    <lastBuildDate>${buildDate.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `    <podcast:guid>${createPodcastGuid(feedUrl)}</podcast:guid>`,
+    `    <itunes:explicit>${channel.explicit}</itunes:explicit>`,
+    '    <itunes:type>episodic</itunes:type>',
+  ];
+  if (channel.author) {
+    lines.push(`    <itunes:author>${escapeXml(channel.author)}</itunes:author>`);
+  }
+  if (channel.ownerName || channel.ownerEmail) {
+    lines.push('    <itunes:owner>');
+    if (channel.ownerName) lines.push(`      <itunes:name>${escapeXml(channel.ownerName)}</itunes:name>`);
+    if (channel.ownerEmail) lines.push(`      <itunes:email>${escapeXml(channel.ownerEmail)}</itunes:email>`);
+    lines.push('    </itunes:owner>');
+  }
+  if (channel.imageUrl) {
+    lines.push(`    <itunes:image href="${escapeXml(channel.imageUrl)}"/>`);
+    lines.push('    <image>');
+    lines.push(`      <url>${escapeXml(channel.imageUrl)}</url>`);
+    lines.push(`      <title>${escapeXml(channel.title)}</title>`);
+    lines.push(`      <link>${escapeXml(channel.baseUrl)}</link>`);
+    lines.push('    </image>');
+  }
+  if (channel.category) {
+    lines.push(`    <itunes:category text="${escapeXml(channel.category)}"/>`);
+  }
+  for (const episode of episodes) {
+    lines.push(createItemXml(channel, episode));
+  }
+  lines.push('  </channel>', '</rss>', '');
+  return lines.join('\n');
+}
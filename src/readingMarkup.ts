@@ -0,0 +1,257 @@
+/**
+ * Ruby-style reading overrides in script text
+ *
+ * `{行った|おこなった}` reads 行った as おこなった for this occurrence only, whatever the
+ * dictionary says. A `'` after a mora of the reading sets where the pitch drops, like in the
+ * AquesTalk notation used by the VOICEVOX editor: `{箸|ハ'シ}` vs `{橋|ハシ'}`.
+ *
+ * Subtitles and transcripts show the written form (行った); the engine gets the reading.
+ */
+
+import type { AccentPhrase, Mora } from './voiceService';
+
+export interface ReadingOverride {
+  /** Written form shown in subtitles */
+  surface: string;
+  /** Reading in katakana, without the accent mark */
+  reading: string;
+  /** Mora after which the pitch drops, counted from 1. Unset keeps the engine's accent. */
+  accent?: number;
+}
+
+export interface ReadingMarkupIssue {
+  /** 0-based index in the text */
+  index: number;
+  message: string;
+}
+
+export interface ParsedReadingText {
+  /** Text with every markup replaced by its written form, for subtitles and transcripts */
+  displayText: string;
+  /** Text with every markup replaced by its reading, sent to /audio_query */
+  queryText: string;
+  /** Overrides in the order they appear */
+  overrides: ReadingOverride[];
+  /** Malformed markup, which is read as its written form */
+  issues: ReadingMarkupIssue[];
+}
+
+const READING_MARKUP_PATTERN = /\{([^{}|\n]*)\|([^{}|\n]*)\}/g;
+
+/** Small kana that share a mora with the kana before them */
+const SMALL_KANA = /[ァィゥェォャュョヮ]/g;
+
+/**
+ * Number of morae of a katakana reading: small kana do not count, ッ and ー do
+ */
+export function countMorae(pronunciation: string): number {
+  return pronunciation.replace(SMALL_KANA, '').length;
+}
+
+const VOWEL_ROWS: [string, string][] = [
+  ['ア', 'アカガサザタダナハバパマヤラワァャヮ'],
+  ['イ', 'イキギシジチヂニヒビピミリィ'],
+  ['ウ', 'ウクグスズツヅヌフブプムユルゥュヴ'],
+  ['エ', 'エケゲセゼテデネヘベペメレェ'],
+  ['オ', 'オコゴソゾトドノホボポモヨロヲォョ'],
+];
+
+export function hasReadingMarkup(text: string): boolean {
+  return new RegExp(READING_MARKUP_PATTERN.source).test(text);
+}
+
+/**
+ * Split text into plain text and reading markup, in order
+ */
+export function splitReadingMarkup(text: string): { text: string; markup: boolean }[] {
+  const parts: { text: string; markup: boolean }[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(READING_MARKUP_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push({ text: text.substring(lastIndex, index), markup: false });
+    parts.push({ text: match[0], markup: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push({ text: text.substring(lastIndex), markup: false });
+  return parts;
+}
+
+export function toKatakana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, char => String.fromCharCode(char.charCodeAt(0) + 0x60));
+}
+
+/**
+ * Parse `{surface|reading}` markup. Malformed markup is reported and read as its written form.
+ */
+export function parseReadingMarkup(text: string): ParsedReadingText {
+  const overrides: ReadingOverride[] = [];
+  const issues: ReadingMarkupIssue[] = [];
+  let displayText = '';
+  let queryText = '';
+  let lastIndex = 0;
+
+  // Plain text between markups; braces there are not part of a complete markup
+  const addPlainText = (end: number) => {
+    const plain = text.substring(lastIndex, end);
+    const brace = plain.search(/[{}]/);
+    if (brace !== -1) {
+      issues.push({ index: lastIndex + brace, message: 'Incomplete reading markup; write it as {written form|reading}' });
+    }
+    displayText += plain;
+    queryText += plain;
+  };
+
+  for (const match of text.matchAll(READING_MARKUP_PATTERN)) {
+    const index = match.index ?? 0;
+    addPlainText(index);
+    lastIndex = index + match[0].length;
+
+    const surface = match[1].trim();
+    const rawReading = match[2].trim();
+    const reading = toKatakana(rawReading.replace(/'/g, ''));
+    const accentMarks = rawReading.split("'").length - 1;
+    displayText += surface;
+
+    let problem: string | undefined;
+    if (surface === '') {
+      problem = `Reading markup "${match[0]}" has no written form`;
+    } else if (!/^[ァ-ヴー]+$/.test(reading)) {
+      problem = `Reading of "${surface}" must be written in hiragana or katakana (got "${rawReading}")`;
+    } else if (accentMarks > 1) {
+      problem = `Reading of "${surface}" has more than one accent mark`;
+    } else if (accentMarks === 1 && rawReading.startsWith("'")) {
+      problem = `Accent mark in the reading of "${surface}" must follow a mora`;
+    }
+    if (problem) {
+      issues.push({ index, message: `${problem}; the written form is read instead` });
+      queryText += surface;
+      continue;
+    }
+
+    const override: ReadingOverride = { surface, reading };
+    if (accentMarks === 1) {
+      override.accent = countMorae(toKatakana(rawReading.substring(0, rawReading.indexOf("'"))));
+    }
+    overrides.push(override);
+    queryText += reading;
+  }
+
+  addPlainText(text.length);
+
+  return { displayText, queryText, overrides, issues };
+}
+
+/**
+ * Written form of text with reading markup, for subtitles and transcripts
+ */
+export function stripReadingMarkup(text: string): string {
+  return parseReadingMarkup(text).displayText;
+}
+
+/**
+ * Mora text as the engine spells it: long vowels become the vowel they extend (コーヒー -> コオヒイ)
+ */
+function normalizeMoraText(katakana: string): string {
+  let result = '';
+  for (const char of katakana) {
+    if (char === 'ー' && result.length > 0) {
+      const previous = result[result.length - 1];
+      result += VOWEL_ROWS.find(([, row]) => row.includes(previous))?.[0] ?? char;
+    } else {
+      result += char === 'ヲ' ? 'オ' : char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Find the reading in the moras, starting at the given mora. Returns the index of its first mora.
+ */
+function findReading(moras: Mora[], reading: string, fromMora: number): number | undefined {
+  const target = normalizeMoraText(reading);
+  for (let start = fromMora; start < moras.length; start++) {
+    let spelled = '';
+    for (let end = start; end < moras.length && spelled.length < target.length; end++) {
+      spelled += normalizeMoraText(moras[end].text);
+    }
+    if (spelled === target) return start;
+  }
+  return undefined;
+}
+
+/**
+ * Turn the moras [start, end) into an accent phrase of their own with the given accent.
+ * The parts of the surrounding phrases before and after become phrases of their own.
+ */
+function isolateAccentPhrase(phrases: AccentPhrase[], start: number, end: number, accent: number): AccentPhrase[] {
+  const result: AccentPhrase[] = [];
+  const isolated: Mora[] = [];
+  let position = 0;
+
+  for (const phrase of phrases) {
+    const phraseStart = position;
+    const phraseEnd = position + phrase.moras.length;
+    position = phraseEnd;
+    if (phraseEnd <= start || phraseStart >= end) {
+      result.push(phrase);
+      continue;
+    }
+
+    // Head: the moras of the first phrase before the reading
+    if (phraseStart < start) {
+      const head = phrase.moras.slice(0, start - phraseStart);
+      result.push({ ...phrase, moras: head, accent: Math.min(phrase.accent, head.length), pause_mora: null, is_interrogative: false });
+    }
+
+    isolated.push(...phrase.moras.slice(Math.max(start, phraseStart) - phraseStart, Math.min(end, phraseEnd) - phraseStart));
+
+    if (phraseEnd >= end) {
+      const hasTail = phraseEnd > end;
+      result.push({
+        ...phrase,
+        moras: isolated,
+        accent: Math.min(accent, isolated.length),
+        pause_mora: hasTail ? null : phrase.pause_mora,
+        is_interrogative: hasTail ? false : phrase.is_interrogative,
+      });
+      // Tail: the rest of the last phrase keeps its accent if it was there, and is flat otherwise
+      if (hasTail) {
+        const tail = phrase.moras.slice(end - phraseStart);
+        const offset = end - phraseStart;
+        result.push({ ...phrase, moras: tail, accent: phrase.accent > offset ? phrase.accent - offset : tail.length });
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply the accents of the overrides to the accent phrases returned by /audio_query for their
+ * query text. Returns the edited phrases and the overrides whose reading could not be found.
+ * The pitch of the edited moras has to be recalculated by the engine (/mora_data).
+ */
+export function applyReadingAccents(
+  phrases: AccentPhrase[],
+  overrides: ReadingOverride[]
+): { phrases: AccentPhrase[]; notFound: ReadingOverride[] } {
+  let result = phrases;
+  const notFound: ReadingOverride[] = [];
+  // Overrides are matched in order, so a reading that appears twice is found at the right place
+  let cursor = 0;
+
+  for (const override of overrides) {
+    const moras = result.flatMap(phrase => phrase.moras);
+    const start = findReading(moras, override.reading, cursor);
+    if (start === undefined) {
+      notFound.push(override);
+      continue;
+    }
+    const end = start + countMorae(override.reading);
+    if (override.accent !== undefined) {
+      result = isolateAccentPhrase(result, start, end, override.accent);
+    }
+    cursor = end;
+  }
+
+  return { phrases: result, notFound };
+}
@@ -0,0 +1,36 @@
+/**
+ * Problems found while parsing a script, with their position in the file
+ */
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ScriptIssue {
+  severity: IssueSeverity;
+  /** 1-based line number in the script file */
+  line: number;
+  /** 1-based column in the line */
+  column: number;
+  message: string;
+}
+
+export function formatIssue(issue: ScriptIssue, filePath?: string): string {
+  const label = issue.severity === 'error' ? 'Error' : 'Warning';
+  const location = `${filePath ? `${filePath}:` : ''}${issue.line}:${issue.column}`;
+  return `${label}: ${location}: ${issue.message}`;
+}
+
+/**
+ * Print issues the way the parser used to report them: as console warnings
+ */
+export function printIssues(issues: ScriptIssue[], filePath?: string): void {
+  for (const issue of issues) {
+    console.warn(formatIssue(issue, filePath));
+  }
+}
+
+/**
+ * Sort issues by position so that reports read top to bottom
+ */
+export function sortIssues(issues: ScriptIssue[]): ScriptIssue[] {
+  return [...issues].sort((a, b) => a.line - b.line || a.column - b.column);
+}
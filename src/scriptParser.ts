@@ -1,149 +1,674 @@
 /**
  * Script parser for dialogue mode
- * Supports format: @characterId: text or @characterId(params): text
+ * Supports format: @speaker: text, @speaker[style]: text or @speaker(params): text
+ * where speaker is a character (style) ID, a character name, `name/style`, or a cast alias.
  * 
  * Example:
  * @1: こんにちは、これはテストです。
  * @3: ずんだもんです。ID指定で話しています。
  * @1(pitch=-0.1, speed=1.2): パラメータを個別に上書きすることも可能です。
+ * @1(volume=1.2, pauseLengthScale=0.8): 音量や句読点の間も指定できます。
+ * @1(morph=3:0.4): 別のスタイル（ID 3）の声を4割混ぜて話します。
  * @3: それはすごいですね。
+ *
+ * Speakers can be written by name and given aliases in a cast declaration:
+ * @host = 14
+ * @guest = ずんだもん/あまあま
+ * @host: 今日のゲストです。
+ * @ずんだもん: よろしくなのだ。
+ *
+ * Chapter directives start a new chapter at the following line:
+ * # chapter: 導入
+ *
+ * Pauses are inserted as silence, either as a standalone directive (in seconds)
+ * or per line with pre=/post=:
+ * @pause(1.5)
+ * @3(pre=0.5, post=1): 少し間を置いて話します。
+ *
+ * Sound effects are played between lines, in the order they appear. Paths are
+ * relative to the script file:
+ * @sfx(jingles/transition.mp3, volume=0.8)
+ *
+ * Readings can be given inline for a single occurrence, optionally with an accent mark:
+ * @1: 新しい施策を{行った|おこなった}。
+ *
+ * Styles of the speaker's character can be chosen by name, for a line or a part of it:
+ * @ずんだもん[ささやき]: ここだけの話なのだ。
+ * @ずんだもん: 実は<style=ささやき>ここだけの話</style>なのだ。
+ *
+ * A long utterance can be wrapped: lines without a speaker continue the previous line until
+ * the next dialogue line or directive. A blank line inside an utterance starts a new paragraph,
+ * which is read after a short pause. [Stage directions] are not spoken but kept in transcripts.
+ * @14: [資料をめくりながら] 今日のテーマは
+ * ポッドキャストの作り方です。
+ *
+ * Lines starting with # or // are ignored, as are C-style block comments, which may start after
+ * other text and run over any number of lines. Comments are removed before anything else is read,
+ * so a cast declaration inside a block comment has no effect.
  */
 
+import { ScriptIssue, printIssues } from './scriptIssues';
+import { parseReadingMarkup } from './readingMarkup';
+import { checkStyleMarkup, hasStyleMarkup, stripStyleTags } from './styleMarkup';
+
 export interface DialogueLine {
-  characterId: number;
+  /** 1-based line number in the script file */
+  lineNumber: number;
+  /** Speaker reference after cast aliases are applied (e.g. "14", "ずんだもん", "ずんだもん/ノーマル") */
+  speaker: string;
+  /** Set when the speaker is a numeric ID without a style; others are filled in by resolveSpeakers() */
+  characterId?: number;
+  /** Style name from @speaker[style]:, looked up among the styles of the speaker's character */
+  style?: string;
+  /** Text of the utterance, with stage directions. Paragraphs are separated by a blank line. */
   text: string;
   pitch?: number;
   intonationScale?: number;
   speed?: number;
+  /** volumeScale= or volume= parameter */
+  volumeScale?: number;
+  /** Silence in seconds the engine adds before the voice */
+  prePhonemeLength?: number;
+  /** Silence in seconds the engine adds after the voice */
+  postPhonemeLength?: number;
+  /** Scale of the pauses at punctuation */
+  pauseLengthScale?: number;
+  /** Blend with another style (morph=target:rate parameter) */
+  morph?: {
+    /** Speaker reference of the style blended in, after cast aliases are applied */
+    target: string;
+    /** Set when the target is a numeric ID; named targets are filled in by resolveSpeakers() */
+    targetId?: number;
+    /** 0 to 1 */
+    rate: number;
+  };
+  /** Silence in seconds before this line (pre= parameter) */
+  pre?: number;
+  /** Silence in seconds after this line (post= parameter) */
+  post?: number;
+  /** Pauses, sound effects and stage directions before this line, in script order */
+  before?: ScriptInsert[];
+  /** Pauses, sound effects and stage directions after the last line */
+  after?: ScriptInsert[];
+  /** Title of the chapter that starts at this line */
+  chapter?: string;
+}
+
+/**
+ * A @pause or @sfx directive, or a stage direction outside an utterance, placed on the timeline between dialogue lines
+ */
+export type ScriptInsert =
+  | { type: 'pause'; seconds: number }
+  | {
+    type: 'sfx';
+    /** Path as written in the script (relative to the script file) */
+    file: string;
+    volume: number;
+    /** 1-based line number of the directive */
+    lineNumber: number;
+  }
+  | {
+    /** Not heard, only written to transcripts */
+    type: 'direction';
+    text: string;
+    lineNumber: number;
+  };
+
+// @speaker: text, @speaker[style]: text or @speaker(params): text (full-width colons and brackets
+// are accepted too). The text may start on the following lines.
+const DIALOGUE_LINE_PATTERN = /^@([^\s(:：=[［]+?)(?:[[［]([^\]］]*)[\]］])?(?:\(([^)]*)\))?\s*[:：]\s*(.*)$/;
+
+// [stage direction] or ［ト書き］, but not the text of a Markdown link [text](url)
+const STAGE_DIRECTION_PATTERN = /[[［][^[\]［］\n]*[\]］](?!\()/g;
+const STAGE_DIRECTION_LINE_PATTERN = /^[[［][^[\]［］\n]*[\]］]$/;
+
+/** Separates the paragraphs of an utterance */
+const PARAGRAPH_SEPARATOR = '\n\n';
+
+// @alias = speaker
+const CAST_DECLARATION_PATTERN = /^@([^\s(:：=/]+)\s*=\s*(\S+)$/;
+
+/**
+ * Recommended ranges of the per-line voice parameters (the ranges of the VOICEVOX editor).
+ * Values outside are still sent to the engine but reported as warnings.
+ */
+export const PARAMETER_RANGES = {
+  pitch: { min: -0.15, max: 0.15 },
+  intonationScale: { min: 0, max: 2 },
+  speed: { min: 0.5, max: 2 },
+  volumeScale: { min: 0, max: 2 },
+  prePhonemeLength: { min: 0, max: 1.5 },
+  postPhonemeLength: { min: 0, max: 1.5 },
+  pauseLengthScale: { min: 0, max: 2 },
+} as const;
+
+export type VoiceParameter = keyof typeof PARAMETER_RANGES;
+
+/** Parameters the engine cannot take a negative value for */
+const NON_NEGATIVE_PARAMETERS: VoiceParameter[] = ['intonationScale', 'speed', 'volumeScale', 'prePhonemeLength', 'postPhonemeLength', 'pauseLengthScale'];
+
+/** Shorter names accepted in scripts */
+const PARAMETER_ALIASES: Record<string, VoiceParameter> = {
+  volume: 'volumeScale',
+};
+
+/** Audio query settings that change the output format and so cannot differ between lines */
+const GLOBAL_ONLY_PARAMETERS = ['outputSamplingRate', 'outputStereo'];
+
+/** Sampling rates in Hz the output may be synthesized at */
+const OUTPUT_SAMPLING_RATE_RANGE = { min: 8000, max: 192000 };
+
+/**
+ * Check a voice parameter value. Returns an error for values the engine cannot use and a
+ * warning for values outside the recommended range.
+ */
+export function checkParameterValue(key: VoiceParameter, value: number): { error?: string; warning?: string } {
+  if (NON_NEGATIVE_PARAMETERS.includes(key) && value < 0) {
+    return { error: `Parameter "${key}" must not be negative` };
+  }
+  const { min, max } = PARAMETER_RANGES[key];
+  if (value < min || value > max) {
+    return { warning: `Parameter "${key}" is out of range (${min} to ${max}): ${value}` };
+  }
+  return {};
+}
+
+/**
+ * Check the voice settings for the whole script, from the command line or the front-matter.
+ * `generate` refuses to run with errors and `validate` reports both, so that they always agree.
+ */
+export function checkVoiceSettings(values: Partial<Record<VoiceParameter | 'outputSamplingRate', number>>): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    if (key === 'outputSamplingRate') {
+      const { min, max } = OUTPUT_SAMPLING_RATE_RANGE;
+      if (!(Number.isInteger(value) && value >= min && value <= max)) {
+        errors.push(`Output sampling rate must be an integer from ${min} to ${max} Hz (got ${value})`);
+      }
+      continue;
+    }
+    const { error, warning } = checkParameterValue(key as VoiceParameter, value);
+    if (error) errors.push(`${error} (got ${value})`);
+    if (warning) warnings.push(warning);
+  }
+  return { errors, warnings };
+}
+
+export interface ParseScriptOptions {
+  /** Report dialogue lines whose text is longer than this many characters */
+  maxLineLength?: number;
+}
+
+export interface ParsedScript {
+  lines: DialogueLine[];
+  issues: ScriptIssue[];
 }
 
 /**
- * Check if a text file is in dialogue script format
+ * Check if a text file is in dialogue script format: at least one line outside comments is
+ * `@speaker: text`. Speaker names are not checked here; they are resolved against the engine later.
  */
 export function isDialogueScript(content: string): boolean {
-  const lines = content.split('\n').map(line => line.trim()).filter(line => line.length > 0);
-  if (lines.length === 0) return false;
+  return stripComments(content.split('\n'), []).some(line => line !== undefined && DIALOGUE_LINE_PATTERN.test(line.trim()));
+}
 
-  // Check if at least one line matches the dialogue format @ID: text
-  const dialoguePattern = /^@\d+(\([^)]+\))?:\s*.+$/;
-  return lines.some(line => dialoguePattern.test(line));
+/**
+ * 1-based column of the first non-whitespace character
+ */
+function indentColumn(rawLine: string): number {
+  return rawLine.length - rawLine.trimStart().length + 1;
 }
 
 /**
- * Parse dialogue script content into DialogueLine array
+ * Separator for a continuation line: a space between Latin words, nothing in Japanese text
  */
-export function parseDialogueScript(content: string): DialogueLine[] {
-  const lines = content.split('\n');
+function getLineSeparator(previous: string, next: string): string {
+  return /[A-Za-z0-9,.!?]$/.test(previous) && /^[A-Za-z0-9]/.test(next) ? ' ' : '';
+}
+
+/**
+ * Text without stage directions, for synthesis and subtitles
+ */
+export function stripStageDirections(text: string): string {
+  return text
+    .replace(STAGE_DIRECTION_PATTERN, '')
+    .replace(/[ \t　]{2,}/g, ' ')
+    .replace(/^[ \t　]+|[ \t　]+$/gm, '')
+    .trim();
+}
+
+/**
+ * Utterance text on a single line, for subtitles and transcripts
+ */
+export function flattenParagraphs(text: string): string {
+  return text
+    .split(PARAGRAPH_SEPARATOR)
+    .reduce((joined, paragraph) => joined.length > 0 ? `${joined}${getLineSeparator(joined, paragraph)}${paragraph}` : paragraph, '');
+}
+
+function checkReadingMarkup(text: string, lineNumber: number, column: number, issues: ScriptIssue[]): void {
+  for (const issue of parseReadingMarkup(text).issues) {
+    issues.push({ severity: 'warning', line: lineNumber, column: column + issue.index, message: issue.message });
+  }
+}
+
+/**
+ * Join the text before and after a removed comment, keeping one space if either side had one
+ */
+function joinAroundComment(before: string, after: string): string {
+  if (before.trim().length === 0 || after.trim().length === 0) return before + after;
+  const space = /\s$/.test(before) || /^\s/.test(after) ? ' ' : '';
+  return `${before.trimEnd()}${space}${after.trimStart()}`;
+}
+
+/** `/*` starts a block comment only at the start of the line or after whitespace, not in e.g. "/usr/*" */
+const BLOCK_COMMENT_START_PATTERN = /(?:^|(?<=\s))\/\*/;
+
+/**
+ * Remove comments, keeping the line numbers: lines starting with # (except `# chapter:`) or //,
+ * and block comments, possibly over several lines. A `/*` that is never closed is read as text.
+ * Lines that held nothing but comments become undefined, so that they do not count as blank lines
+ * between paragraphs.
+ */
+function stripComments(lines: string[], issues: ScriptIssue[]): (string | undefined)[] {
+  // Index of the last line that can close a block comment
+  let lastCloseIndex = -1;
+  lines.forEach((rawLine, i) => {
+    if (rawLine.includes('*/')) lastCloseIndex = i;
+  });
+
+  let inBlockComment = false;
+
+  return lines.map((rawLine, i): string | undefined => {
+    let text = '';
+    let rest = rawLine;
+    let hasComment = inBlockComment;
+    // Whether `rest` follows the end of a comment on this line
+    let afterComment = false;
+
+    for (;;) {
+      if (inBlockComment) {
+        const end = rest.indexOf('*/');
+        if (end === -1) break;
+        inBlockComment = false;
+        rest = rest.substring(end + 2);
+        afterComment = true;
+      }
+      const start = rest.search(BLOCK_COMMENT_START_PATTERN);
+      const opens = start !== -1 && (rest.includes('*/', start + 2) || i < lastCloseIndex);
+      if (start !== -1 && !opens) {
+        issues.push({ severity: 'warning', line: i + 1, column: rawLine.length - rest.length + start + 1, message: '"/*" is not closed with "*/" and is read as text' });
+      }
+      const visible = opens ? rest.substring(0, start) : rest;
+      text = afterComment ? joinAroundComment(text, visible) : text + visible;
+      if (!opens) break;
+      hasComment = true;
+      inBlockComment = true;
+      rest = rest.substring(start + 2);
+    }
+
+    const line = text.trim();
+    if (hasComment && line.length === 0) return undefined;
+    if (/^#\s*chapter\s*:/i.test(line)) return text;
+    if (line.startsWith('#') || line.startsWith('//')) return undefined;
+    return text;
+  });
+}
+
+/**
+ * Collect cast declarations (`@alias = speaker`) from the whole script
+ */
+function parseCast(lines: (string | undefined)[], issues: ScriptIssue[]): Map<string, string> {
+  const cast = new Map<string, string>();
+
+  lines.forEach((rawLine, i) => {
+    if (rawLine === undefined) return;
+    const match = rawLine.trim().match(CAST_DECLARATION_PATTERN);
+    if (!match) return;
+
+    const [, alias, target] = match;
+    const column = indentColumn(rawLine) + 1;
+    if (/^\d+$/.test(alias) || alias === 'pause' || alias === 'sfx') {
+      issues.push({ severity: 'warning', line: i + 1, column, message: `Reserved alias "${alias}" cannot be declared and will be skipped` });
+      return;
+    }
+    if (cast.has(alias)) {
+      issues.push({ severity: 'warning', line: i + 1, column, message: `Alias "${alias}" is declared again; the later declaration is used` });
+    }
+    cast.set(alias, target);
+  });
+
+  return cast;
+}
+
+/**
+ * Parse dialogue script content and collect every problem instead of printing it
+ */
+export function parseScript(content: string, options: ParseScriptOptions = {}): ParsedScript {
+  const issues: ScriptIssue[] = [];
+  const lines = stripComments(content.split('\n'), issues);
   const dialogueLines: DialogueLine[] = [];
+  const cast = parseCast(lines, issues);
+  let pendingChapter: { title: string; lineNumber: number } | undefined;
+  let pendingInserts: ScriptInsert[] = [];
+  // The utterance that continuation lines are appended to, until the next dialogue line or directive
+  let current: { line: DialogueLine; textColumn: number; paragraphBreak: boolean } | undefined;
+
+  const closeUtterance = () => {
+    if (!current) return;
+    const { line: dialogueLine, textColumn } = current;
+    current = undefined;
+
+    const untaggedText = stripStyleTags(dialogueLine.text);
+    if (untaggedText.trim().length === 0) {
+      issues.push({ severity: 'warning', line: dialogueLine.lineNumber, column: textColumn, message: 'Line has empty text and will be skipped' });
+      return;
+    }
+    if (stripStageDirections(untaggedText).length === 0) {
+      issues.push({ severity: 'warning', line: dialogueLine.lineNumber, column: textColumn, message: 'Line has only stage directions; it is kept in the transcript but not spoken' });
+      pendingInserts.push({ type: 'direction', text: flattenParagraphs(untaggedText), lineNumber: dialogueLine.lineNumber });
+      return;
+    }
 
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].trim();
+    // Style spans may cross continuation lines, so they are checked once the utterance is complete
+    for (const issue of checkStyleMarkup(dialogueLine.text)) {
+      issues.push({ severity: 'warning', line: dialogueLine.lineNumber, column: textColumn, message: issue.message });
+    }
+    if (options.maxLineLength !== undefined && dialogueLine.text.length > options.maxLineLength) {
+      issues.push({
+        severity: 'warning',
+        line: dialogueLine.lineNumber,
+        column: textColumn,
+        message: `Line is ${dialogueLine.text.length} characters long (limit: ${options.maxLineLength}); consider splitting it`,
+      });
+    }
 
-    // Skip empty lines
-    if (line.length === 0) continue;
+    if (pendingInserts.length > 0) {
+      dialogueLine.before = pendingInserts;
+      pendingInserts = [];
+    }
 
-    // Match format: @ID: text or @ID(params): text
-    const match = line.match(/^@(\d+)(?:\(([^)]+)\))?:\s*(.+)$/);
+    if (pendingChapter) {
+      dialogueLine.chapter = pendingChapter.title;
+      pendingChapter = undefined;
+    }
 
-    if (!match) {
-      // If line doesn't match dialogue format, skip it with a warning
-      console.warn(`Warning: Line ${i + 1} does not match dialogue format and will be skipped: "${line.substring(0, 50)}..."`);
+    dialogueLines.push(dialogueLine);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const rawLine = lines[i];
+    // Lines that held only comments neither continue nor break an utterance
+    if (rawLine === undefined) continue;
+    const line = rawLine.trim();
+    const lineNumber = i + 1;
+    const column = indentColumn(rawLine);
+
+    // Empty lines separate paragraphs of the current utterance
+    if (line.length === 0) {
+      if (current) current.paragraphBreak = true;
+      continue;
+    }
+
+    // Chapter directive: applies to the next dialogue line
+    const chapterMatch = line.match(/^#\s*chapter\s*:\s*(.*)$/i);
+    if (chapterMatch) {
+      closeUtterance();
+      const title = chapterMatch[1].trim();
+      if (title.length === 0) {
+        issues.push({ severity: 'warning', line: lineNumber, column, message: 'Chapter title is empty; the directive will be skipped' });
+        continue;
+      }
+      if (pendingChapter) {
+        issues.push({ severity: 'warning', line: pendingChapter.lineNumber, column: 1, message: `Chapter "${pendingChapter.title}" has no dialogue lines and will be skipped` });
+      }
+      pendingChapter = { title, lineNumber };
       continue;
     }
 
-    const characterId = parseInt(match[1], 10);
-    const paramsString = match[2] || '';
-    const text = match[3].trim();
+    // Pause directive: silence before the next dialogue line
+    const pauseMatch = line.match(/^@pause\(\s*([^)]*?)\s*\)$/);
+    if (pauseMatch) {
+      closeUtterance();
+      const seconds = Number(pauseMatch[1]);
+      if (pauseMatch[1] === '' || isNaN(seconds) || seconds < 0) {
+        issues.push({ severity: 'warning', line: lineNumber, column: column + 7, message: `Invalid pause length "${pauseMatch[1]}"; the directive will be skipped` });
+        continue;
+      }
+      pendingInserts.push({ type: 'pause', seconds });
+      continue;
+    }
 
-    if (isNaN(characterId)) {
-      console.warn(`Warning: Line ${i + 1} has invalid character ID and will be skipped: "${line.substring(0, 50)}..."`);
+    // Sound effect directive: played before the next dialogue line
+    const sfxMatch = line.match(/^@sfx\(([^)]*)\)$/);
+    if (sfxMatch) {
+      closeUtterance();
+      const sfx = parseSoundEffect(sfxMatch[1], lineNumber, column + 5, issues);
+      if (sfx) pendingInserts.push(sfx);
       continue;
     }
 
-    if (text.length === 0) {
-      console.warn(`Warning: Line ${i + 1} has empty text and will be skipped`);
+    // Cast declarations were collected up front
+    if (CAST_DECLARATION_PATTERN.test(line)) continue;
+
+    // Match format: @speaker: text or @speaker(params): text
+    const match = line.match(DIALOGUE_LINE_PATTERN);
+
+    if (!match) {
+      // Continuation line: appended to the current utterance
+      if (current) {
+        checkReadingMarkup(line, lineNumber, column, issues);
+        const separator = current.paragraphBreak ? PARAGRAPH_SEPARATOR : getLineSeparator(current.line.text, line);
+        current.line.text = current.line.text.length > 0 ? `${current.line.text}${separator}${line}` : line;
+        current.paragraphBreak = false;
+        continue;
+      }
+      // A stage direction on its own between utterances is only kept for the transcript
+      if (STAGE_DIRECTION_LINE_PATTERN.test(line)) {
+        pendingInserts.push({ type: 'direction', text: line, lineNumber });
+        continue;
+      }
+      issues.push({ severity: 'warning', line: lineNumber, column, message: `Line does not match dialogue format and will be skipped: "${line.substring(0, 50)}..."` });
       continue;
     }
 
+    closeUtterance();
+
+    const speaker = cast.get(match[1]) ?? match[1];
+    const style = match[2]?.trim();
+    const paramsString = match[3] || '';
+    const text = match[4].trim();
+    const textColumn = text.length > 0 ? column + line.indexOf(match[4]) : column;
+    checkReadingMarkup(text, lineNumber, textColumn, issues);
+
     const dialogueLine: DialogueLine = {
-      characterId,
+      lineNumber,
+      speaker,
       text,
     };
+    if (style) {
+      dialogueLine.style = style;
+    } else if (style !== undefined) {
+      issues.push({ severity: 'warning', line: lineNumber, column: column + 1 + match[1].length, message: 'Style name is empty; the default style of the speaker is used' });
+    }
+    if (/^\d+$/.test(speaker) && !dialogueLine.style) {
+      dialogueLine.characterId = parseInt(speaker, 10);
+    }
 
     // Parse parameters if present
     if (paramsString) {
-      const params = parseParameters(paramsString);
-      if (params.pitch !== undefined) dialogueLine.pitch = params.pitch;
-      if (params.intonationScale !== undefined) dialogueLine.intonationScale = params.intonationScale;
-      if (params.speed !== undefined) dialogueLine.speed = params.speed;
+      // Column of the first character inside the parentheses
+      const paramsColumn = column + 1 + match[1].length + (match[2] !== undefined ? match[2].length + 2 : 0) + 1;
+      Object.assign(dialogueLine, parseParameters(paramsString, lineNumber, paramsColumn, issues));
+    }
+    if (dialogueLine.morph) {
+      const target = cast.get(dialogueLine.morph.target) ?? dialogueLine.morph.target;
+      dialogueLine.morph.target = target;
+      if (/^\d+$/.test(target)) dialogueLine.morph.targetId = parseInt(target, 10);
     }
 
-    dialogueLines.push(dialogueLine);
+    current = { line: dialogueLine, textColumn, paragraphBreak: false };
+  }
+
+  closeUtterance();
+
+  if (pendingChapter) {
+    issues.push({ severity: 'warning', line: pendingChapter.lineNumber, column: 1, message: `Chapter "${pendingChapter.title}" has no dialogue lines and will be skipped` });
+  }
+
+  // Pauses and sound effects after the last line are played at the end
+  if (pendingInserts.length > 0 && dialogueLines.length > 0) {
+    dialogueLines[dialogueLines.length - 1].after = pendingInserts;
   }
 
-  return dialogueLines;
+  return { lines: dialogueLines, issues };
 }
 
 /**
- * Parse parameter string like "pitch=-0.1, speed=1.2"
+ * Problems in text that is read as a whole (single-speaker mode)
+ */
+export function checkPlainText(content: string): ScriptIssue[] {
+  return content.split('\n').flatMap((line, i) => {
+    const issues = parseReadingMarkup(line).issues.map((issue): ScriptIssue => ({
+      severity: 'warning',
+      line: i + 1,
+      column: issue.index + 1,
+      message: issue.message,
+    }));
+    if (hasStyleMarkup(line)) {
+      issues.push({ severity: 'warning', line: i + 1, column: line.search(/<\/?style/) + 1, message: 'Style tags are only supported in dialogue scripts and will be read as written' });
+    }
+    return issues;
+  });
+}
+
+/**
+ * Parse dialogue script content into DialogueLine array, printing problems as warnings
+ */
+export function parseDialogueScript(content: string): DialogueLine[] {
+  const { lines, issues } = parseScript(content);
+  printIssues(issues);
+  return lines;
+}
+
+/**
+ * Every sound effect referenced by the script
+ */
+export function getSoundEffects(lines: DialogueLine[]): Extract<ScriptInsert, { type: 'sfx' }>[] {
+  return lines
+    .flatMap(line => [...(line.before ?? []), ...(line.after ?? [])])
+    .filter((insert): insert is Extract<ScriptInsert, { type: 'sfx' }> => insert.type === 'sfx');
+}
+
+/**
+ * Parse the arguments of @sfx(path, volume=0.8). Returns undefined if the directive is unusable.
  */
-function parseParameters(paramsString: string): { pitch?: number; intonationScale?: number; speed?: number } {
-  const params: { pitch?: number; intonationScale?: number; speed?: number } = {};
+function parseSoundEffect(argsString: string, lineNumber: number, startColumn: number, issues: ScriptIssue[]): ScriptInsert | undefined {
+  const [rawFile, ...rawOptions] = argsString.split(',');
+  const file = rawFile.trim().replace(/^(["'])(.*)\1$/, '$2');
+  if (file.length === 0) {
+    issues.push({ severity: 'warning', line: lineNumber, column: startColumn, message: 'Sound effect has no file; the directive will be skipped' });
+    return undefined;
+  }
 
-  // Split by comma and parse each parameter
-  const paramPairs = paramsString.split(',').map(p => p.trim());
+  const sfx: ScriptInsert = { type: 'sfx', file, volume: 1, lineNumber };
+  let offset = rawFile.length + 1;
+  for (const rawOption of rawOptions) {
+    const option = rawOption.trim();
+    const column = startColumn + offset + (rawOption.length - rawOption.trimStart().length);
+    offset += rawOption.length + 1;
+
+    const match = option.match(/^(\w+)\s*=\s*(\S+)$/);
+    if (!match || match[1] !== 'volume') {
+      issues.push({ severity: 'warning', line: lineNumber, column, message: `Unknown sound effect option "${option}", skipping` });
+      continue;
+    }
+    const volume = Number(match[2]);
+    if (isNaN(volume) || volume < 0) {
+      issues.push({ severity: 'warning', line: lineNumber, column, message: `Invalid sound effect volume "${match[2]}", skipping` });
+      continue;
+    }
+    sfx.volume = volume;
+  }
+
+  return sfx;
+}
+
+type LineParameters = Pick<DialogueLine, VoiceParameter | 'pre' | 'post' | 'morph'>;
+
+/**
+ * Parse parameter string like "pitch=-0.1, speed=1.2"
+ */
+function parseParameters(paramsString: string, lineNumber: number, startColumn: number, issues: ScriptIssue[]): LineParameters {
+  const params: LineParameters = {};
+
+  // Split by comma and parse each parameter, keeping track of where each pair starts
+  let offset = 0;
+  for (const rawPair of paramsString.split(',')) {
+    const pair = rawPair.trim();
+    const column = startColumn + offset + (rawPair.length - rawPair.trimStart().length);
+    offset += rawPair.length + 1;
+
+    const warn = (message: string) => issues.push({ severity: 'warning', line: lineNumber, column, message });
+
+    // morph=target:rate, where the target is a speaker reference like the one after @
+    const morphMatch = pair.match(/^morph\s*=\s*(.*)$/);
+    if (morphMatch) {
+      const [, target, rate] = morphMatch[1].match(/^([^\s:：]+)\s*[:：]\s*(\S+)$/) ?? [];
+      const morphRate = Number(rate);
+      if (target === undefined) {
+        warn(`Invalid morph "${morphMatch[1]}"; write it as morph=style:rate (e.g. morph=3:0.4), skipping`);
+      } else if (isNaN(morphRate) || morphRate < 0 || morphRate > 1) {
+        warn(`Morph rate must be between 0 and 1 (got "${rate}"), skipping`);
+      } else {
+        params.morph = { target, rate: morphRate };
+      }
+      continue;
+    }
 
-  for (const pair of paramPairs) {
     const match = pair.match(/^(\w+)\s*=\s*(-?\d+\.?\d*)$/);
     if (!match) {
-      console.warn(`Warning: Invalid parameter format "${pair}", skipping`);
+      warn(`Invalid parameter format "${pair}", skipping`);
       continue;
     }
 
-    const key = match[1].trim();
+    const key: string = PARAMETER_ALIASES[match[1]] ?? match[1];
     const value = parseFloat(match[2]);
 
     if (isNaN(value)) {
-      console.warn(`Warning: Invalid parameter value "${match[2]}" for "${key}", skipping`);
+      warn(`Invalid parameter value "${match[2]}" for "${key}", skipping`);
+      continue;
+    }
+
+    if (key in PARAMETER_RANGES) {
+      const { error, warning } = checkParameterValue(key as VoiceParameter, value);
+      if (error) {
+        warn(`${error}, skipping`);
+        continue;
+      }
+      if (warning) warn(warning);
+      params[key as VoiceParameter] = value;
       continue;
     }
 
     switch (key) {
-      case 'pitch':
-        params.pitch = value;
-        break;
-      case 'intonationScale':
-        params.intonationScale = value;
-        break;
-      case 'speed':
-        params.speed = value;
+      case 'pre':
+      case 'post':
+        if (value < 0) {
+          warn(`Parameter "${key}" must not be negative, skipping`);
+          break;
+        }
+        params[key] = value;
         break;
       default:
-        console.warn(`Warning: Unknown parameter "${key}", skipping`);
+        warn(GLOBAL_ONLY_PARAMETERS.includes(key)
+          ? `Parameter "${key}" applies to the whole output and cannot be set per line, skipping`
+          : `Unknown parameter "${key}", skipping`);
     }
   }
 
   return params;
 }
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
-
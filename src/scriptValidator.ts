@@ -0,0 +1,108 @@
+/**
+ * Offline script linting for the `validate` command
+ *
+ * Runs the same parsing as `generate` without synthesizing anything and collects
+ * every problem with its line and column.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseFrontMatter } from './frontMatter';
+import { checkPlainText, checkVoiceSettings, getSoundEffects, isDialogueScript, parseScript } from './scriptParser';
+import { ScriptIssue, sortIssues } from './scriptIssues';
+import { checkSpeakers, resolveSpeakerReference } from './speakerResolver';
+import { Speaker } from './voiceService';
+
+/**
+ * Maximum number of characters in an input file
+ */
+export const MAX_TEXT_LENGTH = 100000;
+
+export interface ValidateOptions {
+  /** Report dialogue lines longer than this many characters */
+  maxLineLength: number;
+  /** Speaker list of the engine. Speaker checks are skipped when omitted. */
+  speakers?: Speaker[];
+}
+
+export function validateScript(content: string, filePath: string, options: ValidateOptions): ScriptIssue[] {
+  const { frontMatter, body, issues } = parseFrontMatter(content);
+
+  if (content.trim().length === 0) {
+    issues.push({ severity: 'error', line: 1, column: 1, message: 'Input text file is empty' });
+    return issues;
+  }
+
+  if (content.length > MAX_TEXT_LENGTH) {
+    issues.push({
+      severity: 'error',
+      line: 1,
+      column: 1,
+      message: `Text file is too long (${content.length} characters). Maximum allowed length is ${MAX_TEXT_LENGTH} characters`,
+    });
+  }
+
+  // Audio paths in the front-matter and in @sfx directives are relative to the script file
+  const scriptDir = path.dirname(filePath);
+  const audioFiles = { BGM: frontMatter.bgm, Intro: frontMatter.intro, Outro: frontMatter.outro };
+  for (const [label, file] of Object.entries(audioFiles)) {
+    if (file && !fs.existsSync(path.resolve(scriptDir, file))) {
+      issues.push({ severity: 'warning', line: 1, column: 1, message: `${label} file in front-matter not found: ${file}` });
+    }
+  }
+
+  // The same checks as generate, so that a script that passes here is not refused there
+  const voiceSettings = checkVoiceSettings({
+    pitch: frontMatter.pitch,
+    intonationScale: frontMatter.intonationScale,
+    speed: frontMatter.speed,
+    volumeScale: frontMatter.volumeScale,
+    prePhonemeLength: frontMatter.prePhonemeLength,
+    postPhonemeLength: frontMatter.postPhonemeLength,
+    pauseLengthScale: frontMatter.pauseLengthScale,
+    outputSamplingRate: frontMatter.outputSamplingRate,
+  });
+  for (const error of voiceSettings.errors) {
+    issues.push({ severity: 'error', line: 1, column: 1, message: `Front-matter: ${error}` });
+  }
+  for (const warning of voiceSettings.warnings) {
+    issues.push({ severity: 'warning', line: 1, column: 1, message: `Front-matter: ${warning}` });
+  }
+
+  if (frontMatter.speaker && options.speakers) {
+    try {
+      resolveSpeakerReference(frontMatter.speaker, options.speakers);
+    } catch (error) {
+      issues.push({ severity: 'error', line: 1, column: 1, message: `Front-matter speaker: ${error instanceof Error ? error.message : String(error)}` });
+    }
+  }
+
+  if (isDialogueScript(body)) {
+    const parsed = parseScript(body, { maxLineLength: options.maxLineLength });
+    issues.push(...parsed.issues);
+
+    if (parsed.lines.length === 0) {
+      issues.push({ severity: 'error', line: 1, column: 1, message: 'No valid dialogue lines found in the script' });
+    }
+    for (const sfx of getSoundEffects(parsed.lines)) {
+      if (!fs.existsSync(path.resolve(scriptDir, sfx.file))) {
+        issues.push({ severity: 'error', line: sfx.lineNumber, column: 1, message: `Sound effect file not found: ${sfx.file}` });
+      }
+    }
+    if (options.speakers) {
+      issues.push(...checkSpeakers(parsed.lines, options.speakers));
+    }
+  } else {
+    issues.push(...checkPlainText(body));
+    if (!frontMatter.speaker) {
+      issues.push({
+        severity: 'warning',
+        line: 1,
+        column: 1,
+        message: 'Not a dialogue script; single-speaker mode needs -c/--character-id or "speaker" in the front-matter',
+      });
+    }
+  }
+
+  return sortIssues(issues);
+}
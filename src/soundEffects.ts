@@ -0,0 +1,53 @@
+/**
+ * Decode jingles and sound effects into the format of the synthesized voice
+ *
+ * ffmpeg decodes any input it supports (mp3, wav, ogg, ...), resamples it and applies the
+ * volume, so that the result can be concatenated with the synthesized lines as raw PCM.
+ */
+
+import { WavFormat, encodeWav } from './wavUtils';
+const ffmpeg = require('fluent-ffmpeg');
+
+/**
+ * Decode an audio file into a WAV buffer of the given format
+ */
+export function decodeAudioFile(filePath: string, format: WavFormat, volume = 1): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(filePath)
+      .noVideo()
+      .audioFilters(`volume=${volume}`)
+      .audioChannels(format.channels)
+      .audioFrequency(format.sampleRate)
+      .audioCodec(`pcm_s${format.bitDepth}le`)
+      .format(`s${format.bitDepth}le`)
+      // The output stream also ends when ffmpeg fails, so only the command tells whether decoding finished
+      .on('end', () => {
+        resolve(encodeWav(format, Buffer.concat(chunks)));
+      })
+      .on('error', (err: Error) => {
+        reject(new Error(`Failed to decode ${filePath}: ${err.message}. Make sure FFmpeg is installed on your system.`));
+      });
+
+    command.pipe()
+      .on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+  });
+}
+
+/**
+ * Decode each file/volume combination once, even if a sting is used many times in a script
+ */
+export function createSoundEffectLoader(format: WavFormat): (filePath: string, volume: number) => Promise<Buffer> {
+  const decoded = new Map<string, Promise<Buffer>>();
+  return (filePath, volume) => {
+    const key = `${volume}:${filePath}`;
+    let buffer = decoded.get(key);
+    if (!buffer) {
+      buffer = decodeAudioFile(filePath, format, volume);
+      decoded.set(key, buffer);
+    }
+    return buffer;
+  };
+}
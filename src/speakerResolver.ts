@@ -0,0 +1,159 @@
+/**
+ * Resolve speaker names in dialogue scripts to engine style IDs
+ *
+ * `ずんだもん` resolves to the character's first style (ノーマル on VOICEVOX),
+ * `ずんだもん/あまあま` to the named style. Numeric references are used as-is.
+ * A style given with `@speaker[style]:` or `<style=...>` is looked up among the styles of the
+ * character the speaker reference resolves to. Morph targets (morph=) are resolved like speakers.
+ */
+
+import { DialogueLine } from './scriptParser';
+import { getStyleNames } from './styleMarkup';
+import { Speaker } from './voiceService';
+import { ScriptIssue } from './scriptIssues';
+
+export type ResolvedDialogueLine = DialogueLine & { characterId: number; morph?: { targetId: number } };
+
+/**
+ * Resolve a single speaker reference. Throws with a descriptive message for
+ * unknown or ambiguous names.
+ */
+export function resolveSpeakerReference(reference: string, speakers: Speaker[]): number {
+  if (/^\d+$/.test(reference)) {
+    return parseInt(reference, 10);
+  }
+
+  const separatorIndex = reference.indexOf('/');
+  const characterName = separatorIndex === -1 ? reference : reference.substring(0, separatorIndex);
+  const styleName = separatorIndex === -1 ? undefined : reference.substring(separatorIndex + 1);
+
+  const candidates = speakers.filter(speaker => speaker.name === characterName);
+
+  if (candidates.length === 0) {
+    const similar = speakers
+      .map(speaker => speaker.name)
+      .filter(name => name.includes(characterName) || characterName.includes(name));
+    const hint = similar.length > 0 ? ` Did you mean: ${similar.join(', ')}?` : ' Run list-characters to see the available names.';
+    throw new Error(`Unknown speaker "${characterName}".${hint}`);
+  }
+
+  if (candidates.length > 1) {
+    const ids = candidates.map(speaker => `${speaker.name} (${speaker.speaker_uuid})`).join(', ');
+    throw new Error(`Speaker name "${characterName}" is ambiguous: ${ids}. Use a numeric style ID instead.`);
+  }
+
+  const [speaker] = candidates;
+  if (styleName === undefined) {
+    if (speaker.styles.length === 0) {
+      throw new Error(`Speaker "${characterName}" has no styles.`);
+    }
+    return speaker.styles[0].id;
+  }
+
+  const style = speaker.styles.find(s => s.name === styleName);
+  if (!style) {
+    const available = speaker.styles.map(s => s.name).join(', ');
+    throw new Error(`Unknown style "${styleName}" for speaker "${characterName}". Available styles: ${available}`);
+  }
+  return style.id;
+}
+
+/**
+ * Style ID of another style of the character that the given style ID belongs to
+ * (e.g. 3 and "ささやき" -> ずんだもん/ささやき)
+ */
+export function resolveStyleName(characterId: number, styleName: string, speakers: Speaker[]): number {
+  const speaker = speakers.find(s => s.styles.some(style => style.id === characterId));
+  if (!speaker) {
+    throw new Error(`Character ID ${characterId} is not available on the engine, so its style "${styleName}" cannot be looked up.`);
+  }
+  const style = speaker.styles.find(s => s.name === styleName);
+  if (!style) {
+    const available = speaker.styles.map(s => s.name).join(', ');
+    throw new Error(`Unknown style "${styleName}" for speaker "${speaker.name}". Available styles: ${available}`);
+  }
+  return style.id;
+}
+
+/**
+ * Style ID of a line: its speaker reference, then the style of @speaker[style]: if given
+ */
+function resolveLineSpeaker(line: DialogueLine, speakers: Speaker[]): number {
+  const characterId = line.characterId ?? resolveSpeakerReference(line.speaker, speakers);
+  return line.style === undefined ? characterId : resolveStyleName(characterId, line.style, speakers);
+}
+
+/**
+ * Style ID of the morph target of a line
+ */
+function resolveMorphTarget(morph: NonNullable<DialogueLine['morph']>, speakers: Speaker[]): number {
+  try {
+    return morph.targetId ?? resolveSpeakerReference(morph.target, speakers);
+  } catch (error) {
+    throw new Error(`Morph target: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Every style named in the <style=...> spans of a line must exist for its character
+ */
+function checkStyleSpans(line: DialogueLine, characterId: number, speakers: Speaker[]): void {
+  for (const styleName of getStyleNames(line.text)) {
+    resolveStyleName(characterId, styleName, speakers);
+  }
+}
+
+/**
+ * Fill in `characterId` for every line and check the styles of its <style=...> spans.
+ * All unresolvable lines are reported in one error.
+ */
+export function resolveSpeakers(lines: DialogueLine[], speakers: Speaker[]): ResolvedDialogueLine[] {
+  const errors: string[] = [];
+
+  for (const line of lines) {
+    try {
+      line.characterId = resolveLineSpeaker(line, speakers);
+      checkStyleSpans(line, line.characterId, speakers);
+      if (line.morph) line.morph.targetId = resolveMorphTarget(line.morph, speakers);
+    } catch (error) {
+      errors.push(`Line ${line.lineNumber}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Failed to resolve speakers:\n${errors.map(e => `  - ${e}`).join('\n')}`);
+  }
+
+  return lines as ResolvedDialogueLine[];
+}
+
+/**
+ * Report lines whose speaker does not exist on the engine, without modifying them
+ */
+export function checkSpeakers(lines: DialogueLine[], speakers: Speaker[]): ScriptIssue[] {
+  const styleIds = new Set(speakers.flatMap(speaker => speaker.styles.map(style => style.id)));
+  const issues: ScriptIssue[] = [];
+
+  for (const line of lines) {
+    try {
+      const characterId = resolveLineSpeaker(line, speakers);
+      if (!styleIds.has(characterId)) {
+        throw new Error(`Character ID ${characterId} is not available on the engine. Run list-characters to see the available IDs.`);
+      }
+      checkStyleSpans(line, characterId, speakers);
+      const morphTargetId = line.morph ? resolveMorphTarget(line.morph, speakers) : undefined;
+      if (morphTargetId !== undefined && !styleIds.has(morphTargetId)) {
+        throw new Error(`Morph target ${morphTargetId} is not available on the engine. Run list-characters to see the available IDs.`);
+      }
+    } catch (error) {
+      issues.push({
+        severity: 'error',
+        line: line.lineNumber,
+        column: 1,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return issues;
+}
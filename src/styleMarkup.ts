@@ -0,0 +1,103 @@
+/**
+ * Inline style switching in dialogue lines
+ *
+ * `<style=ささやき>ここだけの話</style>` speaks the enclosed text in another style of the
+ * line's character, looked up by name among the styles the engine lists for it. Spans may be
+ * nested; the innermost style wins. The parts of a line are synthesized separately and joined
+ * back into one line, so subtitles and transcripts are not affected.
+ */
+
+export interface StyleSpan {
+  text: string;
+  /** Style name, or undefined for the style of the line */
+  style?: string;
+}
+
+export interface StyleMarkupIssue {
+  /** 0-based index in the text */
+  index: number;
+  message: string;
+}
+
+const STYLE_TAG_PATTERN = /<style\s*=\s*([^<>]*)>|<\/style>/g;
+
+export function hasStyleMarkup(text: string): boolean {
+  return new RegExp(STYLE_TAG_PATTERN.source).test(text);
+}
+
+/**
+ * Walk the tags of the text, calling `onText` for the text between them with the style in effect
+ */
+function scanStyleTags(text: string, onText: (text: string, style: string | undefined) => void): StyleMarkupIssue[] {
+  const issues: StyleMarkupIssue[] = [];
+  const openTags: { style: string; index: number }[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(STYLE_TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    onText(text.substring(lastIndex, index), openTags[openTags.length - 1]?.style);
+    lastIndex = index + match[0].length;
+
+    if (match[1] === undefined) {
+      if (openTags.pop() === undefined) {
+        issues.push({ index, message: '"</style>" has no matching <style=...> and is ignored' });
+      }
+      continue;
+    }
+    const style = match[1].trim();
+    if (style.length === 0) {
+      issues.push({ index, message: 'Style name is empty; the text is read in the style of the line' });
+    }
+    // An empty name keeps the style in effect, so that its </style> still pairs up
+    openTags.push({ style: style || (openTags[openTags.length - 1]?.style ?? ''), index });
+  }
+  onText(text.substring(lastIndex), openTags[openTags.length - 1]?.style);
+
+  for (const tag of openTags) {
+    issues.push({ index: tag.index, message: `<style=${tag.style}> is not closed with </style>; it applies to the rest of the line` });
+  }
+  return issues;
+}
+
+/**
+ * Split text into parts with the same style, in order. Parts without text are dropped.
+ */
+export function splitStyleSpans(text: string): StyleSpan[] {
+  const parts: StyleSpan[] = [];
+  scanStyleTags(text, (part, style) => {
+    if (part.trim().length > 0) parts.push({ text: part, style: style || undefined });
+  });
+
+  // Neighbouring parts in the same style are read in one go
+  const spans: StyleSpan[] = [];
+  for (const part of parts) {
+    const previous = spans[spans.length - 1];
+    if (previous && previous.style === part.style) {
+      previous.text += part.text;
+    } else {
+      spans.push(part);
+    }
+  }
+  return spans;
+}
+
+/**
+ * Text without style tags, for subtitles and transcripts
+ */
+export function stripStyleTags(text: string): string {
+  return text.replace(STYLE_TAG_PATTERN, '');
+}
+
+/**
+ * Unbalanced or empty style tags
+ */
+export function checkStyleMarkup(text: string): StyleMarkupIssue[] {
+  return scanStyleTags(text, () => undefined);
+}
+
+/**
+ * Every style name used in the text
+ */
+export function getStyleNames(text: string): string[] {
+  return [...new Set(splitStyleSpans(text).flatMap(span => span.style === undefined ? [] : [span.style]))];
+}
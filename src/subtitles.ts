@@ -0,0 +1,169 @@
+/**
+ * Subtitle (SRT/WebVTT) and transcript (text/JSON) export
+ *
+ * Timings come from the synthesized audio itself: each segment's start and end
+ * are computed from the WAV sample counts of the lines as they appear in the output.
+ */
+
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * A spoken line placed on the output timeline
+ */
+export interface TimedSegment {
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  /** Subtitle text. Empty for entries that only appear in transcripts. */
+  text: string;
+  /** Transcript text when it differs from the subtitle text, e.g. with stage directions */
+  transcriptText?: string;
+  characterId?: number;
+  /** Display name of the speaker, if resolved */
+  speaker?: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  /** Maximum number of characters per cue */
+  maxCueLength: number;
+  /** Prefix each cue with the speaker name (e.g. "ずんだもん: ...") */
+  includeSpeaker: boolean;
+}
+
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt'];
+export const TRANSCRIPT_EXTENSIONS = ['.txt', '.json'];
+
+/**
+ * Split text into pieces of at most `maxLength` characters,
+ * preferring sentence ends, then commas, then a hard cut
+ */
+function splitCaptionText(text: string, maxLength: number): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const sentences = text.match(/[^。！？!?]+[。！？!?」』）)]*|[。！？!?]+/g) ?? [text];
+  const pieces: string[] = [];
+
+  for (const sentence of sentences) {
+    let rest = sentence.trim();
+    while (rest.length > maxLength) {
+      const window = rest.substring(0, maxLength);
+      const commaIndex = Math.max(window.lastIndexOf('、'), window.lastIndexOf(','), window.lastIndexOf(' '));
+      const cutIndex = commaIndex > 0 ? commaIndex + 1 : maxLength;
+      pieces.push(rest.substring(0, cutIndex).trim());
+      rest = rest.substring(cutIndex).trim();
+    }
+    if (rest.length > 0) pieces.push(rest);
+  }
+
+  // Merge short neighbours back together as long as they fit into one cue
+  const merged: string[] = [];
+  for (const piece of pieces) {
+    const last = merged[merged.length - 1];
+    if (last !== undefined && last.length + piece.length <= maxLength) {
+      merged[merged.length - 1] = last + piece;
+    } else {
+      merged.push(piece);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Turn timed segments into caption-sized cues.
+ * A long segment is split and its duration is shared out by character count.
+ */
+export function buildSubtitleCues(segments: TimedSegment[], options: SubtitleOptions): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    if (segment.text.length === 0) continue;
+    const pieces = splitCaptionText(segment.text, options.maxCueLength);
+    const totalLength = pieces.reduce((sum, piece) => sum + piece.length, 0);
+    const duration = segment.end - segment.start;
+    let cursor = segment.start;
+
+    pieces.forEach((piece, index) => {
+      const end = index === pieces.length - 1
+        ? segment.end
+        : cursor + duration * (piece.length / totalLength);
+      const prefix = options.includeSpeaker && segment.speaker ? `${segment.speaker}: ` : '';
+      cues.push({ start: cursor, end, text: `${prefix}${piece}` });
+      cursor = end;
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Format seconds as HH:MM:SS{separator}mmm
+ */
+function formatTimestamp(seconds: number, separator: string): string {
+  const totalMilliseconds = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMilliseconds / 3600000);
+  const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+  const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+  const milliseconds = totalMilliseconds % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(milliseconds, 3)}`;
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+export function formatTranscriptText(segments: TimedSegment[]): string {
+  return segments
+    .map(segment => {
+      const speaker = segment.speaker ?? (segment.characterId !== undefined ? `@${segment.characterId}` : undefined);
+      return `[${formatTimestamp(segment.start, '.')}] ${speaker ? `${speaker}: ` : ''}${segment.transcriptText ?? segment.text}`;
+    })
+    .join('\n') + '\n';
+}
+
+export function formatTranscriptJson(segments: TimedSegment[]): string {
+  const entries = segments.map(segment => ({
+    start: Number(segment.start.toFixed(3)),
+    end: Number(segment.end.toFixed(3)),
+    characterId: segment.characterId,
+    speaker: segment.speaker,
+    text: segment.transcriptText ?? segment.text,
+  }));
+  return JSON.stringify(entries, null, 2) + '\n';
+}
+
+/**
+ * Write subtitles as SRT or WebVTT depending on the file extension
+ */
+export async function writeSubtitles(filePath: string, segments: TimedSegment[], options: SubtitleOptions): Promise<void> {
+  const ext = path.extname(filePath).toLowerCase();
+  const cues = buildSubtitleCues(segments, options);
+  const content = ext === '.vtt' ? formatVtt(cues) : formatSrt(cues);
+  await fsPromises.writeFile(filePath, content, 'utf-8');
+}
+
+/**
+ * Write a transcript as plain text or JSON depending on the file extension
+ */
+export async function writeTranscript(filePath: string, segments: TimedSegment[]): Promise<void> {
+  const ext = path.extname(filePath).toLowerCase();
+  const content = ext === '.json' ? formatTranscriptJson(segments) : formatTranscriptText(segments);
+  await fsPromises.writeFile(filePath, content, 'utf-8');
+}
@@ -0,0 +1,154 @@
+/**
+ * Content-addressed on-disk cache for synthesized chunks
+ *
+ * Each chunk is stored as `<cacheDir>/<first 2 hex chars>/<sha256>.wav`, keyed by the
+ * engine name and version plus every synthesis parameter, so re-running `generate`
+ * after a small edit only synthesizes the chunks that actually changed. The engine's
+ * user dictionary is part of the key as well, so a new reading is never hidden by the cache.
+ */
+
+import * as fsPromises from 'fs/promises';
+import * as path from 'path';
+import { TtsEngine } from './ttsEngine';
+import { VoiceParams } from './voiceService';
+import { contentHash } from './contentHash';
+import { getUserDictionaryHash } from './userDictionary';
+
+export const DEFAULT_CACHE_DIR = path.join('.cache', 'podcast-generate');
+const SHARD_DIR_PATTERN = /^[0-9a-f]{2}$/;
+const ENTRY_FILE_PATTERN = /^[0-9a-f]{64}\.wav$/;
+
+export interface CacheStats {
+  entries: number;
+  totalBytes: number;
+}
+
+export interface CachedTtsEngine extends TtsEngine {
+  /** Hits and misses since the engine was wrapped */
+  cacheUsage: { hits: number; misses: number };
+}
+
+/**
+ * An empty user dictionary leaves the key unchanged, so existing entries stay valid
+ */
+export function createCacheKey(engineName: string, engineVersion: string, params: VoiceParams, dictionaryHash?: string): string {
+  return contentHash({ engine: engineName, version: engineVersion, params, dictionary: dictionaryHash });
+}
+
+function getEntryPath(cacheDir: string, key: string): string {
+  return path.join(cacheDir, key.substring(0, 2), `${key}.wav`);
+}
+
+/**
+ * Wrap an engine so that `synthesize` reads from and writes to the cache
+ */
+export function createCachedEngine(engine: TtsEngine, cacheDir: string): CachedTtsEngine {
+  const resolvedCacheDir = path.resolve(cacheDir);
+  const cacheUsage = { hits: 0, misses: 0 };
+  // The version is part of every key; fetch it once and share the promise between workers
+  let versionPromise: Promise<string> | undefined;
+  // Likewise the user dictionary. An engine that cannot list it is treated as having none.
+  let dictionaryHashPromise: Promise<string | undefined> | undefined;
+
+  // Identical chunks requested at the same time share one lookup and synthesis
+  const inFlight = new Map<string, Promise<Buffer>>();
+  // Every write gets its own temporary file, also within one process
+  let tempFileCount = 0;
+
+  const readOrSynthesize = async (params: VoiceParams, entryPath: string): Promise<Buffer> => {
+    try {
+      const cached = await fsPromises.readFile(entryPath);
+      cacheUsage.hits++;
+      return cached;
+    } catch {
+      // Not cached yet
+    }
+
+    const audioBuffer = await engine.synthesize(params);
+    cacheUsage.misses++;
+
+    // Write to a temporary file first so that an interrupted run never leaves a truncated entry
+    await fsPromises.mkdir(path.dirname(entryPath), { recursive: true });
+    const tempPath = `${entryPath}.${process.pid}.${++tempFileCount}.tmp`;
+    await fsPromises.writeFile(tempPath, audioBuffer);
+    await fsPromises.rename(tempPath, entryPath);
+
+    return audioBuffer;
+  };
+
+  return {
+    ...engine,
+    cacheUsage,
+    synthesize: async (params: VoiceParams) => {
+      versionPromise ??= engine.getVersion();
+      dictionaryHashPromise ??= engine.capabilities.userDictionary && engine.baseUrl
+        ? getUserDictionaryHash(engine.baseUrl).catch(() => undefined)
+        : Promise.resolve(undefined);
+      const key = createCacheKey(engine.name, await versionPromise, params, await dictionaryHashPromise);
+
+      const pending = inFlight.get(key);
+      if (pending) {
+        const audioBuffer = await pending;
+        cacheUsage.hits++;
+        return audioBuffer;
+      }
+
+      const request = readOrSynthesize(params, getEntryPath(resolvedCacheDir, key));
+      inFlight.set(key, request);
+      try {
+        return await request;
+      } finally {
+        inFlight.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Paths of the cached entries. The cache directory may be given by the user, so only files named
+ * like an entry in a shard directory count.
+ */
+async function listEntries(cacheDir: string): Promise<string[]> {
+  const resolvedCacheDir = path.resolve(cacheDir);
+  let shards: string[];
+  try {
+    shards = await fsPromises.readdir(resolvedCacheDir);
+  } catch {
+    return [];
+  }
+
+  const entries: string[] = [];
+  for (const shard of shards.filter(name => SHARD_DIR_PATTERN.test(name))) {
+    const shardPath = path.join(resolvedCacheDir, shard);
+    const stat = await fsPromises.stat(shardPath);
+    if (!stat.isDirectory()) continue;
+    const files = await fsPromises.readdir(shardPath);
+    entries.push(...files.filter(file => ENTRY_FILE_PATTERN.test(file)).map(file => path.join(shardPath, file)));
+  }
+  return entries;
+}
+
+export async function getCacheStats(cacheDir: string): Promise<CacheStats> {
+  const entries = await listEntries(cacheDir);
+  let totalBytes = 0;
+  for (const entry of entries) {
+    totalBytes += (await fsPromises.stat(entry)).size;
+  }
+  return { entries: entries.length, totalBytes };
+}
+
+/**
+ * Delete every cached entry, and the shard directories they leave empty. Other files in the
+ * cache directory are kept. Returns the number of deleted entries.
+ */
+export async function clearCache(cacheDir: string): Promise<number> {
+  const entries = await listEntries(cacheDir);
+  await Promise.all(entries.map(entry => fsPromises.rm(entry, { force: true })));
+
+  for (const shardPath of new Set(entries.map(entry => path.dirname(entry)))) {
+    if ((await fsPromises.readdir(shardPath)).length === 0) {
+      await fsPromises.rmdir(shardPath);
+    }
+  }
+  return entries.length;
+}
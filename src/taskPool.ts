@@ -0,0 +1,74 @@
+/**
+ * Bounded concurrency and retry helpers for engine requests
+ */
+
+export interface RetryOptions {
+  /** Number of retries after the first attempt */
+  retries: number;
+  /** Delay before the first retry in milliseconds. Doubles on every further retry. */
+  baseDelayMs: number;
+  /** Decide whether an error is transient and worth retrying */
+  isRetryable?: (error: unknown) => boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'ECONNABORTED'];
+
+/**
+ * Transient failures: 5xx responses from the engine and dropped connections
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { status, code } = error as { status?: number; code?: string };
+  if (typeof status === 'number' && status >= 500) return true;
+  return typeof code === 'string' && RETRYABLE_ERROR_CODES.includes(code);
+}
+
+/**
+ * Run `fn`, retrying transient failures with exponential backoff
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
+  const { retries, baseDelayMs, isRetryable = isTransientError, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = baseDelayMs * 2 ** attempt;
+      onRetry?.(error, attempt + 1, delayMs);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+/**
+ * Run `worker` over every item with at most `concurrency` in flight.
+ * Never rejects: each item's outcome is reported in input order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency), items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => runNext()));
+  return results;
+}
@@ -0,0 +1,264 @@
+/**
+ * Text normalization before synthesis
+ *
+ * Scripts written by LLMs contain Markdown, URLs, version numbers, dates and English words,
+ * which VOICEVOX reads badly. Each rule rewrites them into Japanese that the engine reads
+ * naturally. Only the text sent to the engine is normalized; subtitles and transcripts keep
+ * the script text, apart from Markdown. Reading markup ({表記|よみ}) is left untouched.
+ *
+ * Rules:
+ * - markdown: **bold**, `code`, [link](url), headings and list markers are reduced to their text
+ * - urls: URLs are replaced with a word (リンク by default) or removed
+ * - numbers: dates, times, version numbers, percentages, units and thousands separators
+ * - english: English words from a lookup table are replaced with katakana
+ */
+
+import * as fsPromises from 'fs/promises';
+import { splitReadingMarkup } from './readingMarkup';
+
+export const NORMALIZATION_RULES = ['markdown', 'urls', 'numbers', 'english'] as const;
+
+export type NormalizationRule = typeof NORMALIZATION_RULES[number];
+
+/**
+ * Rules applied unless others are chosen. numbers and english change how text that the engine
+ * already read (units, times, English words) sounds, so existing scripts have to opt in to them.
+ */
+export const DEFAULT_NORMALIZATION_RULES: NormalizationRule[] = ['markdown', 'urls'];
+
+export const DEFAULT_URL_REPLACEMENT = 'リンク';
+
+/** Default file of English readings that extend and override the built-in table */
+export const DEFAULT_ENGLISH_TABLE_FILE = 'english-readings.json';
+
+export interface NormalizeOptions {
+  rules: NormalizationRule[];
+  /** Spoken in place of a URL. An empty string removes URLs. */
+  urlReplacement: string;
+  /** English word (case-insensitive) -> reading */
+  englishTable: Map<string, string>;
+}
+
+/**
+ * Common words in tech podcasts that VOICEVOX spells out letter by letter or reads as romaji
+ */
+const BUILT_IN_ENGLISH_READINGS: Record<string, string> = {
+  AI: 'エーアイ',
+  API: 'エーピーアイ',
+  AWS: 'エーダブリューエス',
+  ChatGPT: 'チャットジーピーティー',
+  Claude: 'クロード',
+  CPU: 'シーピーユー',
+  CSS: 'シーエスエス',
+  Docker: 'ドッカー',
+  GitHub: 'ギットハブ',
+  Git: 'ギット',
+  Google: 'グーグル',
+  GPT: 'ジーピーティー',
+  GPU: 'ジーピーユー',
+  HTML: 'エイチティーエムエル',
+  iPhone: 'アイフォーン',
+  JavaScript: 'ジャバスクリプト',
+  JSON: 'ジェイソン',
+  Kubernetes: 'クバネティス',
+  Linux: 'リナックス',
+  LLM: 'エルエルエム',
+  macOS: 'マックオーエス',
+  Microsoft: 'マイクロソフト',
+  'Node.js': 'ノードジェイエス',
+  OpenAI: 'オープンエーアイ',
+  OSS: 'オーエスエス',
+  Podcast: 'ポッドキャスト',
+  Python: 'パイソン',
+  React: 'リアクト',
+  SaaS: 'サース',
+  SQL: 'エスキューエル',
+  TypeScript: 'タイプスクリプト',
+  UI: 'ユーアイ',
+  URL: 'ユーアールエル',
+  VOICEVOX: 'ボイスボックス',
+  Windows: 'ウィンドウズ',
+  YouTube: 'ユーチューブ',
+};
+
+/**
+ * Units that follow a number, longest first so that "MB/s" wins over "MB"
+ */
+const UNIT_READINGS: [string, string][] = [
+  ['Mbps', 'メガビーピーエス'],
+  ['Gbps', 'ギガビーピーエス'],
+  ['MB/s', 'メガバイト毎秒'],
+  ['GHz', 'ギガヘルツ'],
+  ['MHz', 'メガヘルツ'],
+  ['kHz', 'キロヘルツ'],
+  ['Hz', 'ヘルツ'],
+  ['TB', 'テラバイト'],
+  ['GB', 'ギガバイト'],
+  ['MB', 'メガバイト'],
+  ['KB', 'キロバイト'],
+  ['kB', 'キロバイト'],
+  ['km', 'キロメートル'],
+  ['kg', 'キログラム'],
+  ['cm', 'センチメートル'],
+  ['mm', 'ミリメートル'],
+  ['ms', 'ミリ秒'],
+  ['fps', 'エフピーエス'],
+  ['px', 'ピクセル'],
+  ['dB', 'デシベル'],
+  ['m', 'メートル'],
+  ['g', 'グラム'],
+];
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'()（）「」、。]+/g;
+
+/**
+ * Options with the default rules and the built-in English table, except where overridden
+ */
+export function createNormalizeOptions(overrides: Partial<NormalizeOptions> = {}): NormalizeOptions {
+  return {
+    rules: overrides.rules ?? [...DEFAULT_NORMALIZATION_RULES],
+    urlReplacement: overrides.urlReplacement ?? DEFAULT_URL_REPLACEMENT,
+    englishTable: overrides.englishTable ?? createEnglishTable(),
+  };
+}
+
+/**
+ * Parse a rule list such as "markdown,urls". "all" enables every rule, "default" the default
+ * rules and "none" disables normalization.
+ */
+export function parseNormalizationRules(value: string): NormalizationRule[] {
+  const names = value.split(',').map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
+  if (names.length === 1 && names[0] === 'all') return [...NORMALIZATION_RULES];
+  if (names.length === 1 && names[0] === 'none') return [];
+  if (names.length === 1 && names[0] === 'default') return [...DEFAULT_NORMALIZATION_RULES];
+
+  const unknown = names.filter(name => !(NORMALIZATION_RULES as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown normalization rule(s): ${unknown.join(', ')}. Use all, default, none or a comma-separated list of ${NORMALIZATION_RULES.join(', ')}.`);
+  }
+  return names as NormalizationRule[];
+}
+
+/**
+ * The built-in English readings, extended and overridden by the given entries
+ */
+export function createEnglishTable(entries: Record<string, string> = {}): Map<string, string> {
+  const table = new Map<string, string>();
+  for (const [word, reading] of Object.entries({ ...BUILT_IN_ENGLISH_READINGS, ...entries })) {
+    table.set(word.toLowerCase(), reading);
+  }
+  return table;
+}
+
+/**
+ * Read a JSON object of English word -> reading
+ */
+export async function loadEnglishTable(filePath: string): Promise<Record<string, string>> {
+  let content: string;
+  try {
+    content = await fsPromises.readFile(filePath, 'utf-8');
+  } catch {
+    throw new Error(`English reading table not found: ${filePath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${filePath} must be a JSON object of English word -> reading.`);
+  }
+  const invalid = Object.entries(data).filter(([, reading]) => typeof reading !== 'string' || reading.trim() === '');
+  if (invalid.length > 0) {
+    throw new Error(`${filePath}: the reading of ${invalid.map(([word]) => `"${word}"`).join(', ')} must be a non-empty string.`);
+  }
+  return data as Record<string, string>;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Full-width letters, digits and % become half-width so that the rules see one spelling.
+ * Full-width punctuation is part of Japanese text and is kept.
+ */
+function toHalfWidthAlphanumerics(text: string): string {
+  return text.replace(/[０-９Ａ-Ｚａ-ｚ％＋＃]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0));
+}
+
+/**
+ * Reduce Markdown emphasis, code, links, headings, list markers and quotes to their text
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    // Single * and _ only count as emphasis at word boundaries, so snake_case survives
+    .replace(/(^|[^\w*])\*([^*\s][^*]*?)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|[^\w])_([^_\s][^_]*?)_(?!\w)/g, '$1$2')
+    .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*(?:[-*+]|\d+\.)[ \t]+/gm, '')
+    .replace(/^[ \t]*>[ \t]?/gm, '');
+}
+
+function replaceUrls(text: string, replacement: string): string {
+  return text.replace(URL_PATTERN, replacement).replace(/[ \t]{2,}/g, ' ');
+}
+
+function verbalizeNumbers(text: string): string {
+  const unitPattern = UNIT_READINGS.map(([unit]) => escapeRegExp(unit)).join('|');
+  const units = new Map(UNIT_READINGS);
+
+  return text
+    // 1,234,567 -> 1234567
+    .replace(/\d{1,3}(?:,\d{3})+(?![\d,])/g, match => match.replace(/,/g, ''))
+    // 2024/10/18, 2024-10-18 -> 2024年10月18日
+    .replace(/(?<!\d)(\d{4})[/／-](\d{1,2})[/／-](\d{1,2})(?!\d)/g, (_, year, month, day) => `${year}年${Number(month)}月${Number(day)}日`)
+    // 10:30 -> 10時30分
+    .replace(/(?<![\d:：])([01]?\d|2[0-4])[:：]([0-5]\d)(?![\d:：])/g, (_, hour, minute) => `${Number(hour)}時${minute === '00' ? '' : `${Number(minute)}分`}`)
+    // v1.2.3, ver. 2, version 2.0 -> バージョン1点2点3
+    .replace(/(?<![A-Za-z])(?:v(\d+(?:\.\d+)+)|(?:ver\.?|version)\s?(\d+(?:\.\d+)*))(?![\d.])/gi,
+      (_, short: string | undefined, long: string | undefined) => `バージョン${(short ?? long ?? '').split('.').join('点')}`)
+    // 1.2.3 (three or more parts) -> 1点2点3
+    .replace(/(?<![\d.])\d+(?:\.\d+){2,}(?![\d.])/g, match => match.split('.').join('点'))
+    // 50% -> 50パーセント
+    .replace(/(\d)\s?%/g, '$1パーセント')
+    // 16GB -> 16ギガバイト
+    .replace(new RegExp(`(\\d)\\s?(${unitPattern})(?![A-Za-z/])`, 'g'), (_, digit, unit) => `${digit}${units.get(unit)}`);
+}
+
+function replaceEnglish(text: string, table: Map<string, string>): string {
+  if (table.size === 0) return text;
+  // Longest words first so that "GitHub" is not read as "Git" + "Hub"
+  const words = [...table.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![A-Za-z0-9])(?:${words.join('|')})(?![A-Za-z0-9])`, 'gi');
+  return text.replace(pattern, match => table.get(match.toLowerCase()) ?? match);
+}
+
+function normalizePlainText(text: string, options: NormalizeOptions): string {
+  const { rules } = options;
+  let result = toHalfWidthAlphanumerics(text);
+  // URLs go first so that the other rules never see their dots, slashes and underscores
+  if (rules.includes('urls')) result = replaceUrls(result, options.urlReplacement);
+  if (rules.includes('markdown')) result = stripMarkdown(result);
+  if (rules.includes('numbers')) result = verbalizeNumbers(result);
+  if (rules.includes('english')) result = replaceEnglish(result, options.englishTable);
+  return result;
+}
+
+/**
+ * Rewrite text into what the engine should read. Reading markup is passed through unchanged.
+ */
+export function normalizeText(text: string, options: NormalizeOptions): string {
+  if (options.rules.length === 0) return text;
+  return splitReadingMarkup(text)
+    .map(part => part.markup ? part.text : normalizePlainText(part.text, options))
+    .join('')
+    .trim();
+}
@@ -0,0 +1,192 @@
+/**
+ * Splitting text into chunks for synthesis
+ *
+ * The engine is given at most `maxLength` characters at a time. Chunks are cut at the end of
+ * a sentence where possible, then at a clause (読点, comma), then between words, and only as
+ * a last resort anywhere else. Cuts never fall inside brackets, quotes or reading markup while
+ * a better place exists, and never in the middle of a Latin word or number.
+ *
+ * Paragraphs (separated by blank lines) always start a new chunk, so that a pause can be
+ * placed between them.
+ */
+
+export const DEFAULT_MAX_CHUNK_LENGTH = 600;
+
+/** Seconds of silence between paragraphs */
+export const PARAGRAPH_PAUSE = 0.6;
+
+export interface TextChunk {
+  text: string;
+  /** Last chunk of a paragraph that is followed by another paragraph */
+  paragraphEnd: boolean;
+}
+
+const OPENING_BRACKETS = '「『（(【［[〈《〔｛{“‘';
+const CLOSING_BRACKETS = '」』）)】］]〉》〕｝}”’';
+/** Reading markup ({表記|よみ}) must never be cut, not even as a last resort */
+const MARKUP_BRACKETS: [string, string] = ['{', '}'];
+
+/** Sentence ends that need no space after them */
+const FULL_WIDTH_SENTENCE_ENDS = '。！？';
+/** Sentence ends that only count when followed by a space, so that 1.5 and Node.js stay whole */
+const HALF_WIDTH_SENTENCE_ENDS = '.!?';
+const FULL_WIDTH_CLAUSE_ENDS = '、，；：';
+const HALF_WIDTH_CLAUSE_ENDS = ',;:';
+
+const WORD_CHAR = /[A-Za-z0-9]/;
+const SPACE = /\s/;
+
+type BreakFinder = (text: string) => number[];
+
+/**
+ * Nesting depth before every character. Unbalanced closing brackets are ignored.
+ */
+function getDepths(text: string, opening: string, closing: string): number[] {
+  const depths: number[] = [];
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    depths.push(depth);
+    if (opening.includes(text[i])) depth++;
+    else if (closing.includes(text[i])) depth = Math.max(0, depth - 1);
+  }
+  return depths;
+}
+
+function isSentenceEnd(text: string, index: number): boolean {
+  const char = text[index];
+  const next = text[index + 1];
+  if (FULL_WIDTH_SENTENCE_ENDS.includes(char)) return true;
+  return HALF_WIDTH_SENTENCE_ENDS.includes(char) && (next === undefined || SPACE.test(next));
+}
+
+function isClauseEnd(text: string, index: number): boolean {
+  const char = text[index];
+  const next = text[index + 1];
+  if (FULL_WIDTH_CLAUSE_ENDS.includes(char)) return true;
+  return HALF_WIDTH_CLAUSE_ENDS.includes(char) && (next === undefined || SPACE.test(next));
+}
+
+/**
+ * Positions after which a new piece may start, for the given kind of boundary.
+ * `insideBrackets` allows breaks inside brackets and quotes, but never inside reading markup.
+ */
+function createBreakFinder(kind: 'sentence' | 'clause' | 'word', insideBrackets: boolean): BreakFinder {
+  return (text) => {
+    const depths = insideBrackets
+      ? getDepths(text, MARKUP_BRACKETS[0], MARKUP_BRACKETS[1])
+      : getDepths(text, OPENING_BRACKETS, CLOSING_BRACKETS);
+    const breaks: number[] = [];
+
+    for (let i = 0; i < text.length - 1; i++) {
+      const depthAfter = depths[i + 1];
+      if (depthAfter !== 0) continue;
+      const char = text[i];
+      const next = text[i + 1];
+
+      let isBreak = false;
+      if (kind === 'sentence') {
+        // A run such as "！？" or "。」" ends the sentence after its last character
+        const continues = FULL_WIDTH_SENTENCE_ENDS.includes(next) || HALF_WIDTH_SENTENCE_ENDS.includes(next) || CLOSING_BRACKETS.includes(next);
+        if (char === '\n') {
+          isBreak = true;
+        } else if (isSentenceEnd(text, i)) {
+          isBreak = !continues;
+        } else if (CLOSING_BRACKETS.includes(char) && i > 0 && isSentenceEnd(text, i - 1)) {
+          // 「はい。」「いいえ。」 splits between the quotes, 「はい。」と言った。 does not
+          isBreak = !continues && (SPACE.test(next) || OPENING_BRACKETS.includes(next));
+        }
+      } else if (kind === 'clause') {
+        isBreak = isClauseEnd(text, i) && !CLOSING_BRACKETS.includes(next);
+      } else {
+        isBreak = SPACE.test(char) && !SPACE.test(next);
+      }
+
+      if (isBreak) breaks.push(i + 1);
+    }
+    return breaks;
+  };
+}
+
+/** Boundaries from the most to the least natural place for a seam */
+const BREAK_FINDERS: BreakFinder[] = [
+  createBreakFinder('sentence', false),
+  createBreakFinder('clause', false),
+  createBreakFinder('word', false),
+  createBreakFinder('sentence', true),
+  createBreakFinder('clause', true),
+  createBreakFinder('word', true),
+];
+
+function cutAt(text: string, positions: number[]): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  for (const position of positions) {
+    pieces.push(text.substring(start, position));
+    start = position;
+  }
+  pieces.push(text.substring(start));
+  return pieces;
+}
+
+/**
+ * Cut text that has no natural boundary, keeping Latin words, numbers and reading markup whole
+ * where possible
+ */
+function cutAnywhere(text: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxLength) {
+    const markupDepths = getDepths(rest, MARKUP_BRACKETS[0], MARKUP_BRACKETS[1]);
+    let cut = maxLength;
+    while (cut > 0 && (markupDepths[cut] > 0 || (WORD_CHAR.test(rest[cut - 1]) && WORD_CHAR.test(rest[cut])))) {
+      cut--;
+    }
+    if (cut === 0) cut = maxLength;
+    // Never split a surrogate pair
+    if (/[\uDC00-\uDFFF]/.test(rest[cut])) cut--;
+    pieces.push(rest.substring(0, cut));
+    rest = rest.substring(cut);
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+function splitIntoPieces(text: string, maxLength: number, level = 0): string[] {
+  if (text.length <= maxLength) return [text];
+  if (level === BREAK_FINDERS.length) return cutAnywhere(text, maxLength);
+  return cutAt(text, BREAK_FINDERS[level](text))
+    .flatMap(piece => splitIntoPieces(piece, maxLength, level + 1));
+}
+
+/**
+ * Join neighbouring pieces into chunks of up to maxLength characters
+ */
+function packPieces(pieces: string[], maxLength: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current.length > 0 && (current + piece).trim().length > maxLength) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current += piece;
+    }
+  }
+  chunks.push(current);
+  return chunks.map(chunk => chunk.trim()).filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Split text into chunks of at most maxLength characters for synthesis
+ */
+export function splitText(text: string, maxLength = DEFAULT_MAX_CHUNK_LENGTH): TextChunk[] {
+  const paragraphs = text.split(/\n[ \t　]*\n/).map(paragraph => paragraph.trim()).filter(paragraph => paragraph.length > 0);
+
+  return paragraphs.flatMap((paragraph, paragraphIndex) => {
+    const chunks = packPieces(splitIntoPieces(paragraph, maxLength), maxLength);
+    return chunks.map((chunk, index) => ({
+      text: chunk,
+      paragraphEnd: index === chunks.length - 1 && paragraphIndex < paragraphs.length - 1,
+    }));
+  });
+}
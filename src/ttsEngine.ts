@@ -0,0 +1,133 @@
+/**
+ * Pluggable text-to-speech engine abstraction
+ *
+ * `generateAudio` only talks to a `TtsEngine`, so any server that speaks the
+ * VOICEVOX HTTP API (VOICEVOX, AivisSpeech, COEIROINK-style servers) or the
+ * offline stub can be selected with `--engine` without touching the pipeline.
+ */
+
+import {
+  DEFAULT_API_BASE_URL,
+  Speaker,
+  VoiceParams,
+  generateVoice,
+  getCharacters,
+  getEngineVersion,
+} from './voiceService';
+import { VOICEVOX_WAV_FORMAT, createSilenceWav } from './wavUtils';
+import { stripReadingMarkup } from './readingMarkup';
+
+export interface TtsEngineCapabilities {
+  /** The engine runs in the Docker container managed by `docker <action>` */
+  dockerManaged: boolean;
+  /** The engine exposes `/synthesis_morphing` and `/morphable_targets` */
+  morphing: boolean;
+  /** The engine exposes the `/user_dict` endpoints */
+  userDictionary: boolean;
+}
+
+export interface TtsEngine {
+  /** Engine name as passed to `--engine` */
+  name: string;
+  /** Base URL of the HTTP API, if the engine has one */
+  baseUrl?: string;
+  capabilities: TtsEngineCapabilities;
+  getVersion(): Promise<string>;
+  listSpeakers(): Promise<Speaker[]>;
+  synthesize(params: VoiceParams): Promise<Buffer>;
+}
+
+export const ENGINE_NAMES = ['voicevox', 'aivisspeech', 'compatible', 'stub'] as const;
+export type EngineName = typeof ENGINE_NAMES[number];
+
+export interface CreateEngineOptions {
+  /** Override the engine's default base URL */
+  baseUrl?: string;
+}
+
+/**
+ * Create an engine for any server implementing the VOICEVOX HTTP API
+ */
+function createVoicevoxCompatibleEngine(
+  name: string,
+  baseUrl: string,
+  capabilities: TtsEngineCapabilities
+): TtsEngine {
+  return {
+    name,
+    baseUrl,
+    capabilities,
+    getVersion: () => getEngineVersion(baseUrl),
+    listSpeakers: () => getCharacters(baseUrl),
+    synthesize: (params) => generateVoice(params, baseUrl),
+  };
+}
+
+/**
+ * Offline engine that returns silence roughly as long as the text would take to read.
+ * Useful for dry runs of the whole pipeline without a running engine.
+ */
+function createStubEngine(): TtsEngine {
+  const SECONDS_PER_CHARACTER = 0.12;
+  return {
+    name: 'stub',
+    capabilities: {
+      dockerManaged: false,
+      morphing: false,
+      userDictionary: false,
+    },
+    getVersion: async () => 'stub',
+    listSpeakers: async () => [
+      {
+        name: 'スタブ',
+        speaker_uuid: '00000000-0000-0000-0000-000000000000',
+        styles: [{ name: 'ノーマル', id: 0 }],
+        version: 'stub',
+      },
+    ],
+    synthesize: async ({ text, speed = 1, prePhonemeLength = 0.1, postPhonemeLength = 0.1, outputSamplingRate, outputStereo }) => {
+      const seconds = (stripReadingMarkup(text).length * SECONDS_PER_CHARACTER) / (speed > 0 ? speed : 1);
+      return createSilenceWav({
+        ...VOICEVOX_WAV_FORMAT,
+        sampleRate: outputSamplingRate ?? VOICEVOX_WAV_FORMAT.sampleRate,
+        channels: outputStereo ? 2 : VOICEVOX_WAV_FORMAT.channels,
+      }, prePhonemeLength + seconds + postPhonemeLength);
+    },
+  };
+}
+
+/**
+ * Create the engine selected with `--engine`
+ */
+export function createEngine(name: EngineName, options: CreateEngineOptions = {}): TtsEngine {
+  const { baseUrl } = options;
+
+  switch (name) {
+    case 'voicevox':
+      // A custom URL means the user runs their own engine instead of the managed container
+      return createVoicevoxCompatibleEngine('voicevox', baseUrl ?? DEFAULT_API_BASE_URL, {
+        dockerManaged: baseUrl === undefined,
+        morphing: true,
+        userDictionary: true,
+      });
+    case 'aivisspeech':
+      return createVoicevoxCompatibleEngine('aivisspeech', baseUrl ?? 'http://127.0.0.1:10101', {
+        dockerManaged: false,
+        morphing: false,
+        userDictionary: true,
+      });
+    case 'compatible':
+      if (!baseUrl) {
+        throw new Error("The 'compatible' engine requires --engine-url (e.g. http://127.0.0.1:50032).");
+      }
+      return createVoicevoxCompatibleEngine('compatible', baseUrl, {
+        dockerManaged: false,
+        morphing: false,
+        userDictionary: false,
+      });
+    case 'stub':
+      return createStubEngine();
+    default:
+      throw new Error(`Unknown engine: ${name}. Available engines: ${ENGINE_NAMES.join(', ')}`);
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * User dictionary of VOICEVOX-compatible engines
+ *
+ * Words in the engine's user dictionary change how it reads them (e.g. "Kubernetes" -> クバネティス).
+ * A project keeps its words in a version-controlled `dictionary.json`, which `generate` syncs into
+ * the engine before synthesis so that every teammate's engine reads them the same way.
+ *
+ * dictionary.json is an array of words:
+ *
+ *   [{ "surface": "Kubernetes", "pronunciation": "クバネティス", "accent": 3 }]
+ */
+
+import * as fsPromises from 'fs/promises';
+import fetch from 'node-fetch';
+import { URLSearchParams } from 'url';
+import { EngineRequestError } from './voiceService';
+import { contentHash } from './contentHash';
+import { countMorae } from './readingMarkup';
+
+export const DEFAULT_DICTIONARY_FILE = 'dictionary.json';
+
+export const WORD_TYPES = ['PROPER_NOUN', 'COMMON_NOUN', 'VERB', 'ADJECTIVE', 'SUFFIX'] as const;
+
+export type WordType = typeof WORD_TYPES[number];
+
+const DEFAULT_WORD_TYPE: WordType = 'PROPER_NOUN';
+const DEFAULT_PRIORITY = 5;
+
+/**
+ * A word in dictionary.json
+ */
+export interface DictionaryWord {
+  surface: string;
+  /** Reading in katakana */
+  pronunciation: string;
+  /** Mora on which the pitch drops, counted from 1. 0 is flat (heiban). */
+  accent: number;
+  /** Defaults to PROPER_NOUN */
+  wordType?: WordType;
+  /** 0 (lowest) to 10 (highest). Defaults to 5. */
+  priority?: number;
+}
+
+/**
+ * A word as returned by the engine's `/user_dict` endpoint
+ */
+export interface EngineDictionaryWord {
+  surface: string;
+  priority: number;
+  pronunciation: string;
+  accent_type: number;
+  mora_count?: number;
+  part_of_speech: string;
+  part_of_speech_detail_1: string;
+  [key: string]: unknown;
+}
+
+/**
+ * The engine stores surfaces in full-width characters ("Kubernetes" -> "Ｋｕｂｅｒｎｅｔｅｓ")
+ */
+export function toFullWidth(text: string): string {
+  return text
+    .replace(/[\x21-\x7e]/g, char => String.fromCharCode(char.charCodeAt(0) + 0xfee0))
+    .replace(/ /g, '　');
+}
+
+/**
+ * Inverse of toFullWidth, so that exported files read like hand-written ones
+ */
+export function toHalfWidth(text: string): string {
+  return text
+    .replace(/[！-～]/g, char => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/　/g, ' ');
+}
+
+function getWordType(word: EngineDictionaryWord): WordType {
+  switch (word.part_of_speech) {
+    case '動詞':
+      return 'VERB';
+    case '形容詞':
+      return 'ADJECTIVE';
+    default:
+      if (word.part_of_speech_detail_1 === '固有名詞') return 'PROPER_NOUN';
+      if (word.part_of_speech_detail_1 === '接尾') return 'SUFFIX';
+      return 'COMMON_NOUN';
+  }
+}
+
+/**
+ * Convert a word of the engine into the dictionary.json format
+ */
+export function fromEngineWord(word: EngineDictionaryWord): DictionaryWord {
+  return {
+    surface: toHalfWidth(word.surface),
+    pronunciation: word.pronunciation,
+    accent: word.accent_type,
+    wordType: getWordType(word),
+    priority: word.priority,
+  };
+}
+
+/**
+ * Check a word before it is sent to the engine. Returns the problems found.
+ */
+export function validateDictionaryWord(word: DictionaryWord): string[] {
+  const problems: string[] = [];
+  if (typeof word.surface !== 'string' || word.surface.trim() === '') {
+    problems.push('"surface" must be a non-empty string');
+  }
+  if (typeof word.pronunciation !== 'string' || !/^[ァ-ヴー]+$/.test(word.pronunciation)) {
+    problems.push(`"pronunciation" must be written in katakana (got ${JSON.stringify(word.pronunciation)})`);
+  } else if (Number.isInteger(word.accent) && word.accent > countMorae(word.pronunciation)) {
+    problems.push(`"accent" must not exceed the ${countMorae(word.pronunciation)} morae of ${word.pronunciation} (got ${word.accent})`);
+  }
+  if (!Number.isInteger(word.accent) || word.accent < 0) {
+    problems.push(`"accent" must be a non-negative integer (got ${JSON.stringify(word.accent)})`);
+  }
+  if (word.wordType !== undefined && !WORD_TYPES.includes(word.wordType)) {
+    problems.push(`"wordType" must be one of ${WORD_TYPES.join(', ')} (got ${JSON.stringify(word.wordType)})`);
+  }
+  if (word.priority !== undefined && !(Number.isInteger(word.priority) && word.priority >= 0 && word.priority <= 10)) {
+    problems.push(`"priority" must be an integer from 0 to 10 (got ${JSON.stringify(word.priority)})`);
+  }
+  return problems;
+}
+
+/**
+ * Read a dictionary file. Besides the dictionary.json format, the engine's own export
+ * format (an object keyed by word UUID) is accepted.
+ */
+export async function loadDictionaryFile(filePath: string): Promise<DictionaryWord[]> {
+  let content: string;
+  try {
+    content = await fsPromises.readFile(filePath, 'utf-8');
+  } catch {
+    throw new Error(`Dictionary file not found: ${filePath}`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let words: DictionaryWord[];
+  if (Array.isArray(data)) {
+    words = data;
+  } else if (data && typeof data === 'object') {
+    words = Object.values(data as Record<string, EngineDictionaryWord>).map(fromEngineWord);
+  } else {
+    throw new Error(`${filePath} must contain an array of words.`);
+  }
+
+  const problems: string[] = [];
+  const surfaces = new Set<string>();
+  words.forEach((word, index) => {
+    const label = `word ${index + 1}${typeof word?.surface === 'string' ? ` ("${word.surface}")` : ''}`;
+    if (!word || typeof word !== 'object') {
+      problems.push(`${label}: must be an object`);
+      return;
+    }
+    validateDictionaryWord(word).forEach(problem => problems.push(`${label}: ${problem}`));
+    const key = toFullWidth(String(word.surface));
+    if (surfaces.has(key)) {
+      problems.push(`${label}: "${word.surface}" is listed more than once`);
+    }
+    surfaces.add(key);
+  });
+  if (problems.length > 0) {
+    throw new Error(`Invalid dictionary ${filePath}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+  return words;
+}
+
+/**
+ * Words sorted by surface, in a new array
+ */
+export function sortDictionaryWords(words: DictionaryWord[]): DictionaryWord[] {
+  return [...words].sort((a, b) => a.surface.localeCompare(b.surface, 'ja'));
+}
+
+/**
+ * dictionary.json content, sorted by surface so that exports diff cleanly
+ */
+export function formatDictionaryFile(words: DictionaryWord[]): string {
+  return `${JSON.stringify(sortDictionaryWords(words), null, 2)}\n`;
+}
+
+/**
+ * Send a request to the dictionary endpoints and return the response body
+ */
+async function requestDictionary(baseUrl: string, method: string, endpoint: string, body?: unknown): Promise<string> {
+  let response;
+  try {
+    response = await fetch(`${baseUrl}${endpoint}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new Error(`Failed to connect to the engine at ${baseUrl}. Please ensure it is running.`);
+  }
+  const text = await response.text();
+  if (!response.ok) {
+    throw new EngineRequestError(`'${endpoint.split('?')[0]}' request failed with status ${response.status}: ${text}`, response.status);
+  }
+  return text;
+}
+
+function toWordQuery(word: DictionaryWord): string {
+  return new URLSearchParams({
+    surface: word.surface,
+    pronunciation: word.pronunciation,
+    accent_type: String(word.accent),
+    word_type: word.wordType ?? DEFAULT_WORD_TYPE,
+    priority: String(word.priority ?? DEFAULT_PRIORITY),
+  }).toString();
+}
+
+/**
+ * All words in the engine's user dictionary, keyed by UUID
+ */
+export async function getUserDictionary(baseUrl: string): Promise<Record<string, EngineDictionaryWord>> {
+  return JSON.parse(await requestDictionary(baseUrl, 'GET', '/user_dict'));
+}
+
+/**
+ * Add a word and return its UUID
+ */
+export async function addUserDictionaryWord(baseUrl: string, word: DictionaryWord): Promise<string> {
+  const uuid = await requestDictionary(baseUrl, 'POST', `/user_dict_word?${toWordQuery(word)}`);
+  return JSON.parse(uuid);
+}
+
+export async function updateUserDictionaryWord(baseUrl: string, uuid: string, word: DictionaryWord): Promise<void> {
+  await requestDictionary(baseUrl, 'PUT', `/user_dict_word/${encodeURIComponent(uuid)}?${toWordQuery(word)}`);
+}
+
+export async function deleteUserDictionaryWord(baseUrl: string, uuid: string): Promise<void> {
+  await requestDictionary(baseUrl, 'DELETE', `/user_dict_word/${encodeURIComponent(uuid)}`);
+}
+
+/**
+ * UUIDs of the engine's words with the given surface
+ */
+export function findWordsBySurface(dictionary: Record<string, EngineDictionaryWord>, surface: string): string[] {
+  const key = toFullWidth(surface);
+  return Object.keys(dictionary).filter(uuid => dictionary[uuid].surface === key);
+}
+
+function isSameWord(engineWord: EngineDictionaryWord, word: DictionaryWord): boolean {
+  const current = fromEngineWord(engineWord);
+  return current.pronunciation === word.pronunciation
+    && current.accent === word.accent
+    && current.wordType === (word.wordType ?? DEFAULT_WORD_TYPE)
+    && current.priority === (word.priority ?? DEFAULT_PRIORITY);
+}
+
+export interface DictionarySyncResult {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+/**
+ * Add the words that the engine does not have yet and update those that differ.
+ * Words that only exist in the engine are kept.
+ */
+export async function syncUserDictionary(baseUrl: string, words: DictionaryWord[]): Promise<DictionarySyncResult> {
+  const dictionary = await getUserDictionary(baseUrl);
+  const result: DictionarySyncResult = { added: 0, updated: 0, unchanged: 0 };
+
+  for (const word of words) {
+    const [uuid] = findWordsBySurface(dictionary, word.surface);
+    if (uuid === undefined) {
+      await addUserDictionaryWord(baseUrl, word);
+      result.added++;
+    } else if (!isSameWord(dictionary[uuid], word)) {
+      await updateUserDictionaryWord(baseUrl, uuid, word);
+      result.updated++;
+    } else {
+      result.unchanged++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Hash of the readings in the engine's user dictionary, or undefined when it is empty.
+ * Part of the synthesis cache key, because a new reading changes the synthesized audio.
+ */
+export async function getUserDictionaryHash(baseUrl: string): Promise<string | undefined> {
+  const words = Object.values(await getUserDictionary(baseUrl)).map(fromEngineWord);
+  if (words.length === 0) return undefined;
+  return contentHash(sortDictionaryWords(words));
+}
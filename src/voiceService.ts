@@ -1,5 +1,6 @@
 import fetch from 'node-fetch';
 import { URLSearchParams } from 'url';
+import { applyReadingAccents, hasReadingMarkup, parseReadingMarkup } from './readingMarkup';
 
 /**
  * ---
@@ -10,7 +11,18 @@ import { URLSearchParams } from 'url';
  * ---
  */
 
-const API_BASE_URL = 'http://127.0.0.1:50021';
+export const DEFAULT_API_BASE_URL = 'http://127.0.0.1:50021';
+
+/**
+ * Error for a non-OK response from the engine API. `status` lets callers tell
+ * transient server errors (5xx) from bad requests.
+ */
+export class EngineRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'EngineRequestError';
+  }
+}
 
 export interface CharacterStyle {
   name: string;
@@ -24,66 +36,190 @@ export interface Speaker {
   version: string;
 }
 
-interface VoiceParams {
+export interface Mora {
+  text: string;
+  consonant?: string | null;
+  consonant_length?: number | null;
+  vowel: string;
+  vowel_length: number;
+  pitch: number;
+}
+
+/**
+ * Accent phrase of an audio query. `accent` is the mora after which the pitch drops, counted from 1.
+ */
+export interface AccentPhrase {
+  moras: Mora[];
+  accent: number;
+  pause_mora?: Mora | null;
+  is_interrogative?: boolean;
+}
+
+/**
+ * Blend of the voice with another style through `/synthesis_morphing`
+ */
+export interface MorphParams {
+  /** Style ID blended into the voice */
+  targetId: number;
+  /** 0 keeps the voice as it is, 1 sounds like the target */
+  rate: number;
+}
+
+export interface VoiceParams {
   text: string;
   characterId: number;
   pitch?: number;
   intonationScale?: number;
   speed?: number;
+  volumeScale?: number;
+  /** Silence in seconds before the voice. Unset keeps the engine's default. */
+  prePhonemeLength?: number;
+  /** Silence in seconds after the voice. Unset keeps the engine's default. */
+  postPhonemeLength?: number;
+  /** Scale of the pauses at punctuation. Not supported by older engines. */
+  pauseLengthScale?: number;
+  /** Sampling rate of the returned WAV. Unset keeps the engine's default (24000 Hz for VOICEVOX). */
+  outputSamplingRate?: number;
+  outputStereo?: boolean;
+  /** Only on engines with the morphing capability */
+  morph?: MorphParams;
 }
 
-export async function getCharacters(): Promise<Speaker[]> {
+export async function getCharacters(baseUrl = DEFAULT_API_BASE_URL): Promise<Speaker[]> {
   try {
-    const response = await fetch(`${API_BASE_URL}/speakers`);
+    const response = await fetch(`${baseUrl}/speakers`);
     if (!response.ok) {
       const errorBody = await response.text();
       throw new Error(`Failed to get characters. Is the local engine running? Status ${response.status}: ${errorBody}`);
     }
     return response.json() as Promise<Speaker[]>;
   } catch (error) {
-    throw new Error(`Failed to connect to the local VOICEVOX engine at ${API_BASE_URL}. Please ensure it is running.`);
+    throw new Error(`Failed to connect to the local VOICEVOX engine at ${baseUrl}. Please ensure it is running.`);
+  }
+}
+
+/**
+ * Get the engine version string (e.g. "0.14.6")
+ */
+export async function getEngineVersion(baseUrl = DEFAULT_API_BASE_URL): Promise<string> {
+  try {
+    const response = await fetch(`${baseUrl}/version`);
+    if (!response.ok) {
+      throw new Error(`Status ${response.status}`);
+    }
+    const version = await response.text();
+    return version.replace(/"/g, '').trim();
+  } catch (error) {
+    throw new Error(`Failed to connect to the local VOICEVOX engine at ${baseUrl}. Please ensure it is running.`);
   }
 }
 
+/**
+ * Style IDs that each of the given styles can be morphed with
+ */
+export async function getMorphableTargets(characterIds: number[], baseUrl = DEFAULT_API_BASE_URL): Promise<Map<number, number[]>> {
+  let response;
+  try {
+    response = await fetch(`${baseUrl}/morphable_targets`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(characterIds),
+    });
+  } catch (error) {
+    throw new Error(`Failed to connect to the local VOICEVOX engine at ${baseUrl}. Please ensure it is running.`);
+  }
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new EngineRequestError(`'morphable_targets' request failed with status ${response.status}: ${errorBody}`, response.status);
+  }
+
+  // One object per requested style, keyed by target style ID
+  const targets = await response.json() as Record<string, { is_morphable: boolean }>[];
+  return new Map(characterIds.map((characterId, index) => [
+    characterId,
+    Object.entries(targets[index] ?? {})
+      .filter(([targetId, target]) => target.is_morphable && Number(targetId) !== characterId)
+      .map(([targetId]) => Number(targetId)),
+  ]));
+}
+
+/**
+ * Recalculate the pitch and length of every mora after accent phrases were edited
+ */
+async function recalculateMoraData(phrases: AccentPhrase[], characterId: number, baseUrl: string): Promise<AccentPhrase[]> {
+  const response = await fetch(`${baseUrl}/mora_data?speaker=${characterId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(phrases),
+  });
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new EngineRequestError(`'mora_data' request failed with status ${response.status}: ${errorBody}`, response.status);
+  }
+  return response.json() as Promise<AccentPhrase[]>;
+}
+
 export async function generateVoice({
   text,
   characterId,
   pitch = 0,
   intonationScale = 1,
   speed = 1,
-}: VoiceParams): Promise<Buffer> {
+  morph,
+  ...queryOverrides
+}: VoiceParams, baseUrl = DEFAULT_API_BASE_URL): Promise<Buffer> {
   try {
+    // Reading markup ({行った|おこなった}): OpenJTalk reads katakana as written, so the reading
+    // goes into the query text and the accent phrases are edited afterwards
+    const markup = hasReadingMarkup(text) ? parseReadingMarkup(text) : undefined;
+
     // Step 1: Create an audio query from the text
     const queryParams = new URLSearchParams({
-      text: text,
+      text: markup ? markup.queryText : text,
       speaker: String(characterId),
     });
 
-    const audioQueryResponse = await fetch(`${API_BASE_URL}/audio_query?${queryParams.toString()}`, {
+    const audioQueryResponse = await fetch(`${baseUrl}/audio_query?${queryParams.toString()}`, {
       method: 'POST',
       headers: { 'Accept': 'application/json' },
     });
 
     if (!audioQueryResponse.ok) {
       const errorBody = await audioQueryResponse.text();
-      throw new Error(`'audio_query' request failed with status ${audioQueryResponse.status}: ${errorBody}`);
+      throw new EngineRequestError(`'audio_query' request failed with status ${audioQueryResponse.status}: ${errorBody}`, audioQueryResponse.status);
     }
 
     const queryJson = await audioQueryResponse.json() as any;
 
+    if (markup && markup.overrides.some(override => override.accent !== undefined)) {
+      const { phrases, notFound } = applyReadingAccents(queryJson.accent_phrases, markup.overrides);
+      const missedAccents = notFound.filter(override => override.accent !== undefined);
+      if (missedAccents.length > 0) {
+        console.warn(`\nWarning: The engine did not read ${missedAccents.map(override => `"${override.reading}"`).join(', ')} as written; the accent was not applied.`);
+      }
+      queryJson.accent_phrases = await recalculateMoraData(phrases, characterId, baseUrl);
+    }
+
     // Step 2: Modify the query with specified parameters
     queryJson.pitch = pitch;
     queryJson.speed = speed;
     queryJson.intonationScale = intonationScale;
+    // The other settings keep the engine's defaults unless given
+    for (const [key, value] of Object.entries(queryOverrides)) {
+      if (value !== undefined) queryJson[key] = value;
+    }
 
-    // Step 3: Synthesize the voice from the modified query
+    // Step 3: Synthesize the voice from the modified query, blended with the morph target if given
+    const synthesisEndpoint = morph
+      ? `synthesis_morphing?${new URLSearchParams({ base_speaker: String(characterId), target_speaker: String(morph.targetId), morph_rate: String(morph.rate) }).toString()}`
+      : `synthesis?speaker=${characterId}`;
     const controller = new AbortController();
     const timeout = setTimeout(() => {
       controller.abort();
     }, 3600000); // 60 minutes timeout for long audio synthesis
 
     try {
-      const synthesisResponse = await fetch(`${API_BASE_URL}/synthesis?speaker=${characterId}`, {
+      const synthesisResponse = await fetch(`${baseUrl}/${synthesisEndpoint}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -94,7 +230,7 @@ export async function generateVoice({
 
       if (!synthesisResponse.ok) {
         const errorBody = await synthesisResponse.text();
-        throw new Error(`'synthesis' request failed with status ${synthesisResponse.status}: ${errorBody}`);
+        throw new EngineRequestError(`'${synthesisEndpoint.split('?')[0]}' request failed with status ${synthesisResponse.status}: ${errorBody}`, synthesisResponse.status);
       }
 
       const arrayBuffer = await synthesisResponse.arrayBuffer();
@@ -109,7 +245,7 @@ export async function generateVoice({
     }
   } catch (error) {
     if (error instanceof Error && error.message.includes('ECONNREFUSED')) {
-      throw new Error(`Failed to connect to the local VOICEVOX engine at ${API_BASE_URL}. Please ensure it is running.`);
+      throw new Error(`Failed to connect to the local VOICEVOX engine at ${baseUrl}. Please ensure it is running.`);
     }
     throw error;
   }
@@ -0,0 +1,157 @@
+/**
+ * Disk-backed WAV assembly
+ *
+ * Long episodes are assembled by copying PCM from the per-line WAV files into a single
+ * sink one block at a time, so memory use does not grow with the length of the episode.
+ * The sink is either a WAV file whose header is patched when it is closed, or the stdin
+ * of an ffmpeg encode.
+ */
+
+import * as fs from 'fs';
+import * as fsPromises from 'fs/promises';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { WavFormat, WavInfo, createWavHeader, formatWavFormat, isSameWavFormat, parseWavHeader } from './wavUtils';
+import { scalePcm } from './loudness';
+
+/** Bytes copied at a time. Even, so that 16-bit samples are never split between blocks. */
+const BLOCK_SIZE = 64 * 1024;
+
+/** Enough to cover the fmt chunk and any LIST chunks in front of the data */
+const HEADER_READ_SIZE = 64 * 1024;
+
+/** The RIFF size fields are 32-bit */
+const MAX_WAV_DATA_LENGTH = 0xffffffff - 36;
+
+/**
+ * Destination of raw PCM. write() resolves once the sink can take more data.
+ */
+export interface PcmSink {
+  write(pcm: Buffer): Promise<void>;
+}
+
+/**
+ * A piece of the output timeline
+ */
+export type AudioPart =
+  /** PCM data of a WAV file on disk, optionally scaled by a gain in dB */
+  | { type: 'file'; path: string; info: WavInfo; gainDb?: number }
+  | { type: 'silence'; seconds: number }
+  /** A WAV held in memory, such as a decoded sound effect */
+  | { type: 'wav'; buffer: Buffer };
+
+function getBlockAlign(format: WavFormat): number {
+  return format.channels * (format.bitDepth / 8);
+}
+
+/**
+ * Read the format and data location of a WAV file without loading its PCM data
+ */
+export async function readWavFileInfo(filePath: string): Promise<WavInfo> {
+  const handle = await fsPromises.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const head = Buffer.alloc(Math.min(size, HEADER_READ_SIZE));
+    await handle.read(head, 0, head.length, 0);
+    const info = parseWavHeader(head);
+
+    // parseWavHeader only sees the head of the file; take the data size from the chunk header instead
+    const chunkSize = head.readUInt32LE(info.dataOffset - 4);
+    const dataLength = Math.min(chunkSize, size - info.dataOffset);
+    const bytesPerSecond = info.format.sampleRate * getBlockAlign(info.format);
+    return { ...info, dataLength, duration: dataLength / bytesPerSecond };
+  } catch (error) {
+    throw new Error(`Failed to read ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Write PCM into a WAV file. The header is written with a zero size first and patched by close().
+ */
+export async function createWavFileWriter(filePath: string, format: WavFormat): Promise<PcmSink & { close(): Promise<void> }> {
+  const handle = await fsPromises.open(filePath, 'w');
+  await handle.write(createWavHeader(format, 0), 0, 44, 0);
+  let dataLength = 0;
+
+  return {
+    write: async (pcm) => {
+      if (dataLength + pcm.length > MAX_WAV_DATA_LENGTH) {
+        throw new Error(`${filePath} would exceed the 4 GB size limit of WAV files`);
+      }
+      await handle.write(pcm, 0, pcm.length, 44 + dataLength);
+      dataLength += pcm.length;
+    },
+    close: async () => {
+      try {
+        await handle.write(createWavHeader(format, dataLength), 0, 44, 0);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/**
+ * Write PCM into a stream, waiting for it to drain when its buffer is full
+ */
+export function createStreamSink(stream: Writable): PcmSink {
+  return {
+    write: async (pcm) => {
+      if (!stream.write(pcm)) {
+        await once(stream, 'drain');
+      }
+    },
+  };
+}
+
+async function writeSilence(sink: PcmSink, format: WavFormat, seconds: number): Promise<void> {
+  const blockAlign = getBlockAlign(format);
+  // Same rounding as createSilencePcm()
+  let remaining = Math.max(0, Math.round(seconds * format.sampleRate)) * blockAlign;
+  const zeros = Buffer.alloc(Math.min(remaining, BLOCK_SIZE - (BLOCK_SIZE % blockAlign)));
+  while (remaining > 0) {
+    const length = Math.min(remaining, zeros.length);
+    await sink.write(length === zeros.length ? zeros : zeros.subarray(0, length));
+    remaining -= length;
+  }
+}
+
+async function copyFileData(sink: PcmSink, part: Extract<AudioPart, { type: 'file' }>): Promise<void> {
+  const { dataOffset, dataLength } = part.info;
+  if (dataLength === 0) return;
+
+  const stream = fs.createReadStream(part.path, {
+    start: dataOffset,
+    end: dataOffset + dataLength - 1,
+    highWaterMark: BLOCK_SIZE,
+  });
+  for await (const block of stream) {
+    await sink.write(part.gainDb ? scalePcm(block as Buffer, part.gainDb) : block as Buffer);
+  }
+}
+
+/**
+ * Write the parts in order. Every part must already be in the given format.
+ */
+export async function writeAudioParts(sink: PcmSink, format: WavFormat, parts: AudioPart[]): Promise<void> {
+  for (const part of parts) {
+    if (part.type === 'silence') {
+      await writeSilence(sink, format, part.seconds);
+      continue;
+    }
+
+    const info = part.type === 'file' ? part.info : parseWavHeader(part.buffer);
+    if (!isSameWavFormat(info.format, format)) {
+      const source = part.type === 'file' ? part.path : 'Decoded audio';
+      throw new Error(`${source} is ${formatWavFormat(info.format)}, expected ${formatWavFormat(format)}`);
+    }
+
+    if (part.type === 'file') {
+      await copyFileData(sink, part);
+    } else {
+      await sink.write(part.buffer.subarray(info.dataOffset, info.dataOffset + info.dataLength));
+    }
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Minimal helpers for working with 16-bit PCM WAV data in memory
+ */
+
+export interface WavFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+/**
+ * Format of the WAV files produced by the VOICEVOX engine
+ */
+export const VOICEVOX_WAV_FORMAT: WavFormat = {
+  sampleRate: 24000,
+  channels: 1,
+  bitDepth: 16,
+};
+
+/**
+ * Build a canonical 44-byte RIFF/WAVE header for the given format and data size
+ */
+export function createWavHeader(format: WavFormat, dataLength: number): Buffer {
+  const blockAlign = format.channels * (format.bitDepth / 8);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + dataLength, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(format.channels, 22);
+  header.writeUInt32LE(format.sampleRate, 24);
+  header.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(format.bitDepth, 34);
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(dataLength, 40);
+  return header;
+}
+
+/**
+ * Wrap raw PCM data in a WAV container
+ */
+export function encodeWav(format: WavFormat, pcm: Buffer): Buffer {
+  return Buffer.concat([createWavHeader(format, pcm.length), pcm]);
+}
+
+/**
+ * Create raw PCM silence of the given duration
+ */
+export function createSilencePcm(format: WavFormat, seconds: number): Buffer {
+  const blockAlign = format.channels * (format.bitDepth / 8);
+  const frames = Math.max(0, Math.round(seconds * format.sampleRate));
+  return Buffer.alloc(frames * blockAlign);
+}
+
+/**
+ * Create a complete WAV file containing only silence
+ */
+export function createSilenceWav(format: WavFormat, seconds: number): Buffer {
+  return encodeWav(format, createSilencePcm(format, seconds));
+}
+
+export interface WavInfo {
+  format: WavFormat;
+  /** Byte offset of the PCM data */
+  dataOffset: number;
+  /** Length of the PCM data in bytes */
+  dataLength: number;
+  /** Duration in seconds */
+  duration: number;
+}
+
+/**
+ * Read the format and data location from a RIFF/WAVE header
+ */
+export function parseWavHeader(buffer: Buffer): WavInfo {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Invalid WAV data: missing RIFF/WAVE header');
+  }
+
+  let format: WavFormat | undefined;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString('ascii', offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const chunkStart = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      format = {
+        channels: buffer.readUInt16LE(chunkStart + 2),
+        sampleRate: buffer.readUInt32LE(chunkStart + 4),
+        bitDepth: buffer.readUInt16LE(chunkStart + 14),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('Invalid WAV data: data chunk before fmt chunk');
+      }
+      // Streamed WAVs may leave the size unset; clamp to what is actually there
+      const dataLength = Math.min(chunkSize, buffer.length - chunkStart);
+      const bytesPerSecond = format.sampleRate * format.channels * (format.bitDepth / 8);
+      return {
+        format,
+        dataOffset: chunkStart,
+        dataLength,
+        duration: dataLength / bytesPerSecond,
+      };
+    }
+
+    // Chunks are padded to an even size
+    offset = chunkStart + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('Invalid WAV data: no data chunk found');
+}
+
+export function isSameWavFormat(a: WavFormat, b: WavFormat): boolean {
+  return a.sampleRate === b.sampleRate && a.channels === b.channels && a.bitDepth === b.bitDepth;
+}
+
+export function formatWavFormat(format: WavFormat): string {
+  return `${format.sampleRate} Hz, ${format.channels} ch, ${format.bitDepth}-bit`;
+}
+
+/**
+ * Join WAV files of the same format into a single WAV
+ */
+export function concatWav(wavs: Buffer[]): Buffer {
+  if (wavs.length === 0) {
+    throw new Error('No audio buffers to combine');
+  }
+  if (wavs.length === 1) {
+    return wavs[0];
+  }
+
+  const format = parseWavHeader(wavs[0]).format;
+  const pcmChunks = wavs.map(wav => {
+    const info = parseWavHeader(wav);
+    if (!isSameWavFormat(info.format, format)) {
+      throw new Error(`Cannot combine WAV data of different formats (${formatWavFormat(format)} and ${formatWavFormat(info.format)})`);
+    }
+    return wav.subarray(info.dataOffset, info.dataOffset + info.dataLength);
+  });
+  return encodeWav(format, Buffer.concat(pcmChunks));
+}
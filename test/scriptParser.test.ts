@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { isDialogueScript, parseScript } from '../src/scriptParser';
+
+test('"/*" inside spoken text is not a comment', () => {
+  const { lines, issues } = parseScript('@3: path is /usr/* here\n@3: 次の行\n');
+  assert.deepEqual(lines.map(line => line.text), ['path is /usr/* here', '次の行']);
+  assert.deepEqual(issues, []);
+});
+
+test('an unclosed block comment is read as text', () => {
+  const { lines, issues } = parseScript('@1: こんにちは /* 要確認\n@1: さようなら\n');
+  assert.deepEqual(lines.map(line => line.text), ['こんにちは /* 要確認', 'さようなら']);
+  assert.equal(issues.length, 1);
+  assert.equal(issues[0].severity, 'warning');
+  assert.equal(issues[0].line, 1);
+});
+
+test('block comments may span lines and start mid-line', () => {
+  const { lines } = parseScript('@1: こんにちは /* 要確認\n@1: 消える */ です\n@1: さようなら\n');
+  assert.deepEqual(lines.map(line => line.text), ['こんにちはです', 'さようなら']);
+});
+
+test('a script that names its speakers is a dialogue script', () => {
+  const script = '@ずんだもん: こんにちは\n@四国めたん/ノーマル: こんにちは\n';
+  assert.equal(isDialogueScript(script), true);
+  assert.deepEqual(parseScript(script).lines.map(line => line.speaker), ['ずんだもん', '四国めたん/ノーマル']);
+});
+
+test('dialogue lines inside comments do not make a dialogue script', () => {
+  assert.equal(isDialogueScript('ただの文章です。\n/* @1: 下書き */\n'), false);
+});
+
+test('a script that only uses @name[style]: lines is a dialogue script', () => {
+  const script = '@ずんだもん[ささやき]: ここだけの話\n@四国めたん［ツンツン］: 聞こえてるわよ\n';
+  assert.equal(isDialogueScript(script), true);
+  assert.deepEqual(
+    parseScript(script).lines.map(line => ({ speaker: line.speaker, style: line.style })),
+    [{ speaker: 'ずんだもん', style: 'ささやき' }, { speaker: '四国めたん', style: 'ツンツン' }]
+  );
+});
@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fsPromises from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { clearCache } from '../src/synthesisCache';
+
+test('clearCache deletes only cache entries and the shards they leave empty', async () => {
+  const cacheDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'cache-'));
+  try {
+    const key = 'ab'.repeat(32);
+    await fsPromises.mkdir(path.join(cacheDir, 'ab'));
+    await fsPromises.writeFile(path.join(cacheDir, 'ab', `${key}.wav`), '');
+    await fsPromises.mkdir(path.join(cacheDir, 'src'));
+    await fsPromises.writeFile(path.join(cacheDir, 'src', 'main.wav'), '');
+    await fsPromises.writeFile(path.join(cacheDir, 'notes.txt'), '');
+
+    assert.equal(await clearCache(cacheDir), 1);
+    assert.deepEqual((await fsPromises.readdir(cacheDir)).sort(), ['notes.txt', 'src']);
+    assert.deepEqual(await fsPromises.readdir(path.join(cacheDir, 'src')), ['main.wav']);
+  } finally {
+    await fsPromises.rm(cacheDir, { recursive: true, force: true });
+  }
+});